@@ -0,0 +1,78 @@
+/**
+ * Compression benchmark: URL length per language for the corpus in bench/corpus.
+ * Compares the legacy format, v2 (single JS dictionary) and the current encoder.
+ *
+ * Usage: npm run bench
+ */
+import { readdirSync, readFileSync } from 'node:fs';
+import { extname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createServer } from 'vite';
+
+const CORPUS_DIR = fileURLToPath(new URL('./corpus', import.meta.url));
+const BASE_URL = 'https://vanojx1.github.io/snippt-link/#';
+
+const LANGUAGE_BY_EXTENSION = {
+    '.js': 'javascript',
+    '.ts': 'typescript',
+    '.py': 'python',
+    '.go': 'go',
+    '.rs': 'rust',
+    '.sql': 'sql',
+    '.yml': 'yaml',
+    '.json': 'json',
+    '.sh': 'shell',
+    '.html': 'html',
+    '.css': 'css',
+    '.java': 'java',
+};
+
+const server = await createServer({
+    logLevel: 'error',
+    server: { middlewareMode: true },
+    optimizeDeps: { noDiscovery: true, include: [] },
+});
+
+try {
+    const { encode, normalizeCode } = await server.ssrLoadModule('/src/compression.ts');
+    const { toUrlSafeBase64 } = await server.ssrLoadModule('/src/base64.ts');
+    const { applyDictionaryUnescaped } = await server.ssrLoadModule('/src/dictionary.ts');
+    const { v2 } = await server.ssrLoadModule('/src/codecs/v2.ts');
+    const { strToU8, compressSync } = await import('fflate');
+
+    /** Legacy pipeline: `lang|code` → dictionary → gzip → base64 */
+    const encodeLegacy = (code, lang) =>
+        toUrlSafeBase64(compressSync(strToU8(applyDictionaryUnescaped(`${lang}|${code}`)), { level: 9 }));
+
+    /** v2 pipeline, framed the same way the encoder frames it */
+    const encodeV2 = (code, lang) => {
+        const { flags, body } = v2.encode({ code, lang });
+        return '~' + toUrlSafeBase64(Uint8Array.of((2 << 4) | flags, ...body));
+    };
+
+    const rows = [];
+    for (const file of readdirSync(CORPUS_DIR).sort()) {
+        const lang = LANGUAGE_BY_EXTENSION[extname(file)];
+        if (!lang) continue;
+
+        const code = normalizeCode(readFileSync(join(CORPUS_DIR, file), 'utf8'));
+        const legacy = BASE_URL.length + encodeLegacy(code, lang).length;
+        const previous = BASE_URL.length + encodeV2(code, lang).length;
+        const current = BASE_URL.length + encode({ code, lang }).length;
+
+        rows.push({
+            file,
+            lang,
+            chars: code.length,
+            legacy,
+            v2: previous,
+            current,
+            'vs legacy': `${((1 - current / legacy) * 100).toFixed(1)}%`,
+            'vs v2': `${((1 - current / previous) * 100).toFixed(1)}%`,
+        });
+    }
+
+    console.table(rows);
+} finally {
+    await server.close();
+}
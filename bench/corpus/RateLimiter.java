@@ -0,0 +1,56 @@
+package com.acme.http;
+
+import java.time.Clock;
+import java.util.Map;
+import java.util.concurrent.ConcurrentHashMap;
+
+public class RateLimiter {
+    private final int capacity;
+    private final double refillPerSecond;
+    private final Clock clock;
+    private final Map<String, Bucket> buckets = new ConcurrentHashMap<>();
+
+    private static final class Bucket {
+        private double tokens;
+        private long lastRefill;
+
+        private Bucket(double tokens, long lastRefill) {
+            this.tokens = tokens;
+            this.lastRefill = lastRefill;
+        }
+    }
+
+    public RateLimiter(int capacity, double refillPerSecond, Clock clock) {
+        if (capacity <= 0) {
+            throw new IllegalArgumentException("capacity must be positive");
+        }
+        this.capacity = capacity;
+        this.refillPerSecond = refillPerSecond;
+        this.clock = clock;
+    }
+
+    public boolean tryAcquire(String key) {
+        long now = clock.millis();
+        Bucket bucket = buckets.computeIfAbsent(key, k -> new Bucket(capacity, now));
+
+        synchronized (bucket) {
+            double elapsed = (now - bucket.lastRefill) / 1000.0;
+            bucket.tokens = Math.min(capacity, bucket.tokens + elapsed * refillPerSecond);
+            bucket.lastRefill = now;
+
+            if (bucket.tokens >= 1) {
+                bucket.tokens -= 1;
+                return true;
+            } else {
+                return false;
+            }
+        }
+    }
+
+    public static void main(String[] args) {
+        RateLimiter limiter = new RateLimiter(5, 1.0, Clock.systemUTC());
+        for (int i = 0; i < 10; i++) {
+            System.out.println("request " + i + ": " + limiter.tryAcquire("client"));
+        }
+    }
+}
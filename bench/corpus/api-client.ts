@@ -0,0 +1,64 @@
+export interface User {
+    id: number;
+    name: string;
+    email: string;
+    roles: string[];
+    lastLogin?: Date;
+}
+
+export interface ApiError {
+    status: number;
+    message: string;
+}
+
+type Result<T> = { ok: true; value: T } | { ok: false; error: ApiError };
+
+export class ApiClient {
+    private readonly cache = new Map<string, unknown>();
+
+    constructor(private readonly baseUrl: string, private readonly token?: string) {}
+
+    private async request<T>(path: string, init: RequestInit = {}): Promise<Result<T>> {
+        const headers = new Headers(init.headers);
+        if (this.token) {
+            headers.set('Authorization', `Bearer ${this.token}`);
+        }
+
+        try {
+            const response = await fetch(`${this.baseUrl}${path}`, { ...init, headers });
+            if (!response.ok) {
+                return { ok: false, error: { status: response.status, message: response.statusText } };
+            }
+            return { ok: true, value: (await response.json()) as T };
+        } catch (error) {
+            return { ok: false, error: { status: 0, message: String(error) } };
+        }
+    }
+
+    async getUser(id: number): Promise<User | null> {
+        const key = `user:${id}`;
+        if (this.cache.has(key)) {
+            return this.cache.get(key) as User;
+        }
+
+        const result = await this.request<User>(`/users/${id}`);
+        if (!result.ok) {
+            console.warn(`Failed to load user ${id}: ${result.error.message}`);
+            return null;
+        }
+
+        this.cache.set(key, result.value);
+        return result.value;
+    }
+
+    async updateUser(user: User): Promise<boolean> {
+        const result = await this.request<User>(`/users/${user.id}`, {
+            method: 'PUT',
+            body: JSON.stringify(user),
+        });
+        if (result.ok) {
+            this.cache.delete(`user:${user.id}`);
+        }
+        return result.ok;
+    }
+}
@@ -0,0 +1,59 @@
+/**
+ * Small event bus with debounced listeners.
+ */
+export function debounce(fn, delay) {
+    let timer = null;
+    return function (...args) {
+        if (timer !== null) {
+            clearTimeout(timer);
+        }
+        timer = setTimeout(() => {
+            timer = null;
+            fn.apply(this, args);
+        }, delay);
+    };
+}
+
+export class EventBus {
+    constructor() {
+        this.listeners = new Map();
+    }
+
+    on(event, listener) {
+        if (!this.listeners.has(event)) {
+            this.listeners.set(event, []);
+        }
+        this.listeners.get(event).push(listener);
+        return () => this.off(event, listener);
+    }
+
+    off(event, listener) {
+        const list = this.listeners.get(event);
+        if (list === undefined) {
+            return false;
+        }
+        const index = list.indexOf(listener);
+        if (index !== -1) {
+            list.splice(index, 1);
+        }
+        return index !== -1;
+    }
+
+    emit(event, payload) {
+        const list = this.listeners.get(event) || [];
+        for (const listener of list) {
+            try {
+                listener(payload);
+            } catch (error) {
+                console.error(`Listener for ${event} failed`, error);
+            }
+        }
+    }
+}
+
+const bus = new EventBus();
+const save = debounce((value) => console.log('saving', value), 300);
+bus.on('change', save);
+document.getElementById('input').addEventListener('input', (event) => {
+    bus.emit('change', event.target.value);
+});
@@ -0,0 +1,52 @@
+#!/usr/bin/env bash
+set -euo pipefail
+
+APP_NAME="dashboard"
+DEPLOY_DIR="/srv/${APP_NAME}"
+BACKUP_DIR="/srv/backups"
+TIMESTAMP="$(date +%Y%m%d-%H%M%S)"
+
+log() {
+    echo "[$(date +%H:%M:%S)] $*"
+}
+
+if [[ $# -lt 1 ]]; then
+    echo "Usage: $0 <archive.tar.gz>" >&2
+    exit 1
+fi
+
+ARCHIVE="$1"
+if [ ! -f "$ARCHIVE" ]; then
+    echo "Archive not found: $ARCHIVE" >&2
+    exit 1
+fi
+
+log "Backing up current release"
+mkdir -p "$BACKUP_DIR"
+if [ -d "$DEPLOY_DIR" ]; then
+    tar -czf "${BACKUP_DIR}/${APP_NAME}-${TIMESTAMP}.tar.gz" -C "$DEPLOY_DIR" . > /dev/null
+fi
+
+log "Extracting $ARCHIVE"
+rm -rf "${DEPLOY_DIR}.new"
+mkdir -p "${DEPLOY_DIR}.new"
+tar -xzf "$ARCHIVE" -C "${DEPLOY_DIR}.new"
+
+log "Switching release"
+rm -rf "${DEPLOY_DIR}.old"
+if [ -d "$DEPLOY_DIR" ]; then
+    mv "$DEPLOY_DIR" "${DEPLOY_DIR}.old"
+fi
+mv "${DEPLOY_DIR}.new" "$DEPLOY_DIR"
+
+for service in api worker; do
+    log "Restarting ${APP_NAME}-${service}"
+    sudo systemctl restart "${APP_NAME}-${service}" || {
+        log "Restart failed, rolling back"
+        rm -rf "$DEPLOY_DIR"
+        mv "${DEPLOY_DIR}.old" "$DEPLOY_DIR"
+        exit 1
+    }
+done
+
+log "Done"
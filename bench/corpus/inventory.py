@@ -0,0 +1,59 @@
+import json
+import logging
+from dataclasses import dataclass, field
+from typing import Dict, List, Optional
+
+logger = logging.getLogger(__name__)
+
+
+@dataclass
+class Item:
+    sku: str
+    name: str
+    quantity: int = 0
+    tags: List[str] = field(default_factory=list)
+
+
+class Inventory:
+    def __init__(self, path: str) -> None:
+        self.path = path
+        self.items: Dict[str, Item] = {}
+
+    def load(self) -> None:
+        try:
+            with open(self.path) as f:
+                for raw in json.load(f):
+                    item = Item(**raw)
+                    self.items[item.sku] = item
+        except FileNotFoundError:
+            logger.warning("No inventory file at %s", self.path)
+
+    def add(self, sku: str, amount: int) -> Optional[Item]:
+        item = self.items.get(sku)
+        if item is None:
+            return None
+        if amount <= 0:
+            raise ValueError(f"Amount must be positive, got {amount}")
+        item.quantity += amount
+        return item
+
+    def remove(self, sku: str, amount: int) -> bool:
+        item = self.items.get(sku)
+        if item is None or item.quantity < amount:
+            return False
+        item.quantity -= amount
+        return True
+
+    def low_stock(self, threshold: int = 5) -> List[Item]:
+        return [item for item in self.items.values() if item.quantity < threshold]
+
+
+def main() -> None:
+    inventory = Inventory("inventory.json")
+    inventory.load()
+    for item in inventory.low_stock():
+        print(f"{item.sku}: {item.name} ({item.quantity} left)")
+
+
+if __name__ == "__main__":
+    main()
@@ -0,0 +1,44 @@
+CREATE TABLE customers (
+    id INTEGER PRIMARY KEY,
+    name VARCHAR(200) NOT NULL,
+    country VARCHAR(2) NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE orders (
+    id INTEGER PRIMARY KEY,
+    customer_id INTEGER NOT NULL REFERENCES customers (id),
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    total DECIMAL(10, 2) NOT NULL,
+    placed_at TIMESTAMP NOT NULL
+);
+
+CREATE INDEX idx_orders_customer ON orders (customer_id);
+
+-- Monthly revenue per country for completed orders
+SELECT
+    c.country,
+    DATE_TRUNC('month', o.placed_at) AS month,
+    COUNT(o.id) AS order_count,
+    SUM(o.total) AS revenue,
+    AVG(o.total) AS average_order
+FROM orders o
+INNER JOIN customers c ON c.id = o.customer_id
+WHERE o.status = 'completed'
+  AND o.placed_at >= '2024-01-01'
+GROUP BY c.country, DATE_TRUNC('month', o.placed_at)
+HAVING SUM(o.total) > 1000
+ORDER BY month DESC, revenue DESC;
+
+-- Customers without any order in the last 90 days
+SELECT c.id, c.name
+FROM customers c
+LEFT JOIN orders o
+    ON o.customer_id = c.id
+   AND o.placed_at >= CURRENT_DATE - INTERVAL '90 days'
+WHERE o.id IS NULL
+ORDER BY c.name
+LIMIT 50;
+
+UPDATE orders SET status = 'cancelled'
+WHERE status = 'pending' AND placed_at < CURRENT_DATE - INTERVAL '30 days';
@@ -0,0 +1,94 @@
+use std::fmt;
+use std::iter::Peekable;
+use std::str::Chars;
+
+#[derive(Debug, Clone, PartialEq)]
+pub enum Token {
+    Number(f64),
+    Ident(String),
+    Op(char),
+    LParen,
+    RParen,
+}
+
+#[derive(Debug)]
+pub struct LexError {
+    pub position: usize,
+    pub found: char,
+}
+
+impl fmt::Display for LexError {
+    fn fmt(&self, f: &mut fmt::Formatter<'_>) -> fmt::Result {
+        write!(f, "unexpected '{}' at {}", self.found, self.position)
+    }
+}
+
+pub struct Lexer<'a> {
+    chars: Peekable<Chars<'a>>,
+    position: usize,
+}
+
+impl<'a> Lexer<'a> {
+    pub fn new(input: &'a str) -> Self {
+        Self { chars: input.chars().peekable(), position: 0 }
+    }
+
+    fn next_char(&mut self) -> Option<char> {
+        self.position += 1;
+        self.chars.next()
+    }
+
+    pub fn tokenize(mut self) -> Result<Vec<Token>, LexError> {
+        let mut tokens = Vec::new();
+        while let Some(&c) = self.chars.peek() {
+            match c {
+                ' ' | '\t' => {
+                    self.next_char();
+                }
+                '0'..='9' | '.' => {
+                    let mut text = String::new();
+                    while let Some(&d) = self.chars.peek() {
+                        if !(d.is_ascii_digit() || d == '.') {
+                            break;
+                        }
+                        text.push(d);
+                        self.next_char();
+                    }
+                    tokens.push(Token::Number(text.parse().unwrap_or(0.0)));
+                }
+                '+' | '-' | '*' | '/' => {
+                    tokens.push(Token::Op(c));
+                    self.next_char();
+                }
+                '(' => {
+                    tokens.push(Token::LParen);
+                    self.next_char();
+                }
+                ')' => {
+                    tokens.push(Token::RParen);
+                    self.next_char();
+                }
+                _ if c.is_alphabetic() => {
+                    let mut name = String::new();
+                    while let Some(&d) = self.chars.peek() {
+                        if !d.is_alphanumeric() {
+                            break;
+                        }
+                        name.push(d);
+                        self.next_char();
+                    }
+                    tokens.push(Token::Ident(name));
+                }
+                _ => return Err(LexError { position: self.position, found: c }),
+            }
+        }
+        Ok(tokens)
+    }
+}
+
+fn main() {
+    match Lexer::new("2 * (x + 3.5)").tokenize() {
+        Ok(tokens) => println!("{:?}", tokens),
+        Err(e) => eprintln!("{}", e),
+    }
+}
@@ -0,0 +1,73 @@
+package main
+
+import (
+	"context"
+	"errors"
+	"fmt"
+	"sync"
+	"time"
+)
+
+type Job struct {
+	ID      int
+	Payload string
+}
+
+type Result struct {
+	JobID int
+	Err   error
+}
+
+var ErrEmptyPayload = errors.New("empty payload")
+
+func process(ctx context.Context, job Job) error {
+	if job.Payload == "" {
+		return ErrEmptyPayload
+	}
+	select {
+	case <-time.After(10 * time.Millisecond):
+		return nil
+	case <-ctx.Done():
+		return ctx.Err()
+	}
+}
+
+func worker(ctx context.Context, jobs <-chan Job, results chan<- Result, wg *sync.WaitGroup) {
+	defer wg.Done()
+	for job := range jobs {
+		err := process(ctx, job)
+		results <- Result{JobID: job.ID, Err: err}
+	}
+}
+
+func main() {
+	ctx, cancel := context.WithTimeout(context.Background(), time.Second)
+	defer cancel()
+
+	jobs := make(chan Job, 100)
+	results := make(chan Result, 100)
+
+	var wg sync.WaitGroup
+	for i := 0; i < 4; i++ {
+		wg.Add(1)
+		go worker(ctx, jobs, results, &wg)
+	}
+
+	for i := 0; i < 20; i++ {
+		jobs <- Job{ID: i, Payload: fmt.Sprintf("job-%d", i)}
+	}
+	close(jobs)
+
+	go func() {
+		wg.Wait()
+		close(results)
+	}()
+
+	for result := range results {
+		if result.Err != nil {
+			fmt.Printf("job %d failed: %v\n", result.JobID, result.Err)
+			continue
+		}
+		fmt.Println("job", result.JobID, "done")
+	}
+}
@@ -0,0 +1,223 @@
+/**
+ * snippt command line: turns files or stdin into snippt links, and links back into files.
+ *
+ *   git diff | snippt --lang diff
+ *   snippt src/main.ts src/style.css
+ *   snippt decode 'https://vanojx1.github.io/snippt-link/#.abc' --out ./snippet
+ *
+ * Build with `npm run build:cli`.
+ */
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { basename, extname, join } from 'node:path';
+import { parseArgs } from 'node:util';
+import {
+    URL_ERROR_LIMIT,
+    URL_WARNING_LIMIT,
+    decode,
+    encode,
+    isEncrypted,
+    urlStatus,
+} from '../src/compression';
+import type { SnippetData, SnippetFile } from '../src/compression';
+import { languages as monacoLanguages } from 'monaco-editor/esm/metadata.js';
+import { dictionaryLanguages } from '../src/dictionaries';
+import { VSCODE_TO_MONACO_MAP } from '../src/language-map';
+
+const DEFAULT_BASE_URL = 'https://vanojx1.github.io/snippt-link/';
+
+const USAGE = `Usage:
+  snippt [file...] [options]       Encode files (or stdin) and print the link
+  snippt decode <link> [options]   Print a link's code, or write its files
+
+Options:
+  -l, --lang <id>    Language of the code, as an app language id or a file
+                     extension (default: from the file extension)
+  -n, --name <name>  File name for code read from stdin
+  -p, --preserve     Keep whitespace and blank lines exactly as they are
+  -b, --base <url>   App URL the link points to (default: $SNIPPT_BASE_URL or
+                     ${DEFAULT_BASE_URL})
+  -o, --out <dir>    decode: write the files into this directory
+  -h, --help         Show this help`;
+
+// Language ids the app knows, as opposed to extensions mapped to them. Monaco's
+// list is data only, so the editor itself stays out of the CLI. `diff` has no
+// highlighting of its own but still says what a piped `git diff` is.
+const LANGUAGES = new Set([
+    'plaintext',
+    'diff',
+    ...monacoLanguages.map(language => language.label),
+    ...Object.values(VSCODE_TO_MONACO_MAP),
+    ...dictionaryLanguages(),
+]);
+
+/**
+ * A usage mistake: reported with the usage text.
+ */
+class UsageError extends Error { }
+
+/**
+ * Monaco language for `--lang`: a language id ("python") or an extension ("py").
+ * Anything else becomes plain text, with a warning.
+ */
+function languageForOption(lang: string): string {
+    const key = lang.trim().toLowerCase();
+    const language = LANGUAGES.has(key) ? key : VSCODE_TO_MONACO_MAP[key];
+    if (language) return language;
+    console.error(`snippt: unknown language "${lang}", using plaintext`);
+    return 'plaintext';
+}
+
+/**
+ * Monaco language for a file name, from its extension (or the whole name for Dockerfile-style names).
+ */
+function languageForName(name: string): string | undefined {
+    const key = (extname(name).slice(1) || basename(name)).toLowerCase();
+    return VSCODE_TO_MONACO_MAP[key];
+}
+
+/**
+ * Reads all of stdin as text.
+ */
+async function readStdin(): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+    return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Builds a (possibly multi-file) snippet from the input files, or stdin.
+ */
+async function readSnippet(paths: string[], option?: string, name?: string): Promise<SnippetData> {
+    const lang = option === undefined ? undefined : languageForOption(option);
+    let files: SnippetFile[];
+    if (paths.length === 0) {
+        if (process.stdin.isTTY) throw new UsageError('Nothing to encode: pass a file or pipe code in');
+        files = [{ name: name ?? '', code: await readStdin(), lang }];
+    } else {
+        files = paths.map(path => ({
+            name: basename(path),
+            code: readFileSync(path, 'utf8'),
+            lang: paths.length === 1 && lang ? lang : languageForName(path),
+        }));
+    }
+
+    // A language given on the command line (or known from the extension) is locked, as if picked in the app
+    const [first, ...rest] = files.map(file => (file.lang ? { ...file, langLocked: true } : file));
+    const data: SnippetData = { code: first.code, lang: first.lang };
+    if (first.langLocked) data.langLocked = true;
+    if (first.name) data.name = first.name;
+    if (rest.length > 0) data.files = rest;
+    return data;
+}
+
+/**
+ * Encodes the input and prints the link; the length report goes to stderr.
+ * Exits with 1 if the link is over the error limit.
+ */
+async function encodeCommand(paths: string[], options: { lang?: string; name?: string; preserve?: boolean; base: string }): Promise<number> {
+    const data = await readSnippet(paths, options.lang, options.name);
+    if (options.preserve) data.preserve = true;
+
+    const base = options.base.replace(/#.*$/, '');
+    const url = `${base}#${encode(data)}`;
+    process.stdout.write(`${url}\n`);
+
+    const status = urlStatus(url);
+    if (status.isError) {
+        console.error(`Link is ${status.length} characters, over the ${URL_ERROR_LIMIT} limit: too long to share reliably`);
+        return 1;
+    }
+    if (status.isWarning) {
+        console.error(`Link is ${status.length} characters, over the ${URL_WARNING_LIMIT} warning limit: it may not work in all browsers`);
+    }
+    return 0;
+}
+
+/**
+ * Decodes a link (or a bare hash). Prints a single file's code, or writes
+ * every file into `out`. File names are reduced to their base name, so a
+ * link cannot write outside the directory.
+ */
+function decodeCommand(link: string | undefined, out?: string): number {
+    if (!link) throw new UsageError('decode needs a link');
+
+    const hash = link.includes('#') ? link.slice(link.indexOf('#') + 1) : link;
+    const data = decode(hash);
+    if (!data) {
+        console.error(isEncrypted(hash)
+            ? 'This link is encrypted; open it in the browser to enter the passphrase'
+            : 'Not a snippt link (or it was cut short)');
+        return 1;
+    }
+
+    const files: SnippetFile[] = [{ name: data.name || 'snippet', code: data.code, lang: data.lang }, ...(data.files || [])];
+    // Normalized code lost its final newline; exact (`preserve`) code is written as is
+    const text = (code: string) => (data.preserve || code === '' || code.endsWith('\n') ? code : `${code}\n`);
+
+    if (!out) {
+        for (const file of files) {
+            if (files.length > 1) process.stdout.write(`==> ${file.name} <==\n`);
+            process.stdout.write(text(file.code));
+        }
+        return 0;
+    }
+
+    mkdirSync(out, { recursive: true });
+    for (const file of files) {
+        const path = join(out, basename(file.name) || 'snippet');
+        writeFileSync(path, text(file.code));
+        console.error(`Wrote ${path}`);
+    }
+    return 0;
+}
+
+/**
+ * Parses the command line and runs a command. Returns the exit code.
+ */
+async function main(args: string[]): Promise<number> {
+    const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+            lang: { type: 'string', short: 'l' },
+            name: { type: 'string', short: 'n' },
+            preserve: { type: 'boolean', short: 'p' },
+            base: { type: 'string', short: 'b' },
+            out: { type: 'string', short: 'o' },
+            help: { type: 'boolean', short: 'h' },
+        },
+    });
+
+    if (values.help) {
+        console.log(USAGE);
+        return 0;
+    }
+    if (positionals[0] === 'decode') {
+        return decodeCommand(positionals[1], values.out);
+    }
+    return encodeCommand(positionals, {
+        lang: values.lang,
+        name: values.name,
+        preserve: values.preserve,
+        base: values.base ?? process.env.SNIPPT_BASE_URL ?? DEFAULT_BASE_URL,
+    });
+}
+
+// Output piped into `head` and the like may close early
+process.stdout.on('error', error => {
+    if ((error as NodeJS.ErrnoException).code === 'EPIPE') process.exit(0);
+    throw error;
+});
+
+main(process.argv.slice(2)).then(
+    code => {
+        process.exitCode = code;
+    },
+    error => {
+        console.error(`snippt: ${error instanceof Error ? error.message : error}`);
+        if (error instanceof UsageError || (error as { code?: string }).code?.startsWith('ERR_PARSE_ARGS')) {
+            console.error(`\n${USAGE}`);
+        }
+        process.exitCode = 2;
+    }
+);
@@ -0,0 +1,21 @@
+import { defineConfig } from 'vite';
+
+// Bundles the CLI and the codec it shares with the app into one Node script
+export default defineConfig({
+    publicDir: false,
+    build: {
+        ssr: 'cli/snippt.ts',
+        outDir: 'dist-cli',
+        target: 'node20',
+        rollupOptions: {
+            output: {
+                entryFileNames: 'snippt.js',
+                banner: '#!/usr/bin/env node',
+            },
+        },
+    },
+    ssr: {
+        // fflate included, so the script runs without node_modules
+        noExternal: true,
+    },
+});
@@ -1,17 +1,47 @@
-const CACHE_NAME = 'snippt-link-v1';
+// Every file of the build, written by the Vite build (see vite.config.ts).
+// The dev server has no manifest, so only runtime caching happens there.
+self.PRECACHE = { version: 'dev', files: [] };
+try {
+    importScripts('./precache-manifest.js');
+} catch {
+    // Dev server
+}
 
-// Install - just activate immediately
-self.addEventListener('install', () => {
-    self.skipWaiting();
+// One cache per build, so a version is always served as a whole
+const CACHE_NAME = `snippt-link-${self.PRECACHE.version}`;
+// Anything outside the manifest, cached as it is fetched
+const RUNTIME_CACHE = 'snippt-runtime';
+// Shared content waits here until the page picks it up (see src/file-import.ts)
+const SHARE_CACHE = 'snippt-share';
+const SHARE_KEY = 'shared-content';
+
+// The page itself; snippet links only differ in the hash, which never reaches the worker
+const APP_SHELL = new URL('./', self.registration.scope).href;
+const PRECACHED = self.PRECACHE.files.length > 0;
+const PRECACHE_URLS = PRECACHED
+    ? [APP_SHELL, ...self.PRECACHE.files.map((file) => new URL(file, self.registration.scope).href)]
+    : [];
+
+// Install - download the whole version up front. addAll is all-or-nothing,
+// so a failed download leaves the previous version in charge.
+self.addEventListener('install', (event) => {
+    event.waitUntil(
+        caches.open(CACHE_NAME).then((cache) => cache.addAll(PRECACHE_URLS))
+    );
 });
 
-// Activate - clean old caches and claim clients
+// Updates wait until the page accepts them (the "reload" prompt)
+self.addEventListener('message', (event) => {
+    if (event.data?.type === 'skip-waiting') self.skipWaiting();
+});
+
+// Activate - clean old versions and claim clients
 self.addEventListener('activate', (event) => {
     event.waitUntil(
         caches.keys().then((cacheNames) => {
             return Promise.all(
                 cacheNames
-                    .filter((name) => name.startsWith('snippt-') && name !== CACHE_NAME)
+                    .filter((name) => name.startsWith('snippt-') && name !== CACHE_NAME && name !== SHARE_CACHE)
                     .map((name) => caches.delete(name))
             );
         })
@@ -19,10 +49,71 @@ self.addEventListener('activate', (event) => {
     self.clients.claim();
 });
 
-// Fetch - cache assets on first request, serve from cache after
+// Share target - park what another app shared, then open the app to pick it up
+async function receiveShare(request) {
+    const form = await request.formData();
+    const files = await Promise.all(
+        form.getAll('files')
+            .filter((file) => file instanceof File)
+            .map(async (file) => ({ name: file.name, code: await file.text() }))
+    );
+    const shared = {
+        title: form.get('title') || '',
+        text: form.get('text') || '',
+        url: form.get('url') || '',
+        files,
+    };
+
+    const cache = await caches.open(SHARE_CACHE);
+    await cache.put(
+        new URL(SHARE_KEY, self.registration.scope).href,
+        new Response(JSON.stringify(shared), { headers: { 'Content-Type': 'application/json' } })
+    );
+    return Response.redirect(new URL('./?share', self.registration.scope).href, 303);
+}
+
+// Runtime caching - serve from cache, but also update it in the background
+async function fromRuntimeCache(request) {
+    const cached = await caches.match(request);
+    if (cached) {
+        fetch(request).then((response) => {
+            if (response.ok) {
+                caches.open(RUNTIME_CACHE).then((cache) => {
+                    cache.put(request, response);
+                });
+            }
+        }).catch(() => { });
+        return cached;
+    }
+
+    // Not in cache - fetch and cache
+    try {
+        const response = await fetch(request);
+        if (response.ok) {
+            const responseClone = response.clone();
+            caches.open(RUNTIME_CACHE).then((cache) => {
+                cache.put(request, responseClone);
+            });
+        }
+        return response;
+    } catch {
+        // Offline and not cached - return the app for navigation
+        if (request.mode === 'navigate') {
+            const shell = await caches.match(APP_SHELL);
+            if (shell) return shell;
+        }
+        throw new Error('Offline');
+    }
+}
+
 self.addEventListener('fetch', (event) => {
     const { request } = event;
 
+    if (request.method === 'POST' && new URL(request.url).pathname.endsWith('/share-target')) {
+        event.respondWith(receiveShare(request));
+        return;
+    }
+
     // Skip non-GET requests
     if (request.method !== 'GET') return;
 
@@ -30,35 +121,12 @@ self.addEventListener('fetch', (event) => {
     if (!request.url.startsWith(self.location.origin)) return;
 
     event.respondWith(
-        caches.match(request).then((cached) => {
-            if (cached) {
-                // Return cached version, but also update cache in background
-                fetch(request).then((response) => {
-                    if (response.ok) {
-                        caches.open(CACHE_NAME).then((cache) => {
-                            cache.put(request, response);
-                        });
-                    }
-                }).catch(() => { });
-                return cached;
-            }
-
-            // Not in cache - fetch and cache
-            return fetch(request).then((response) => {
-                if (response.ok) {
-                    const responseClone = response.clone();
-                    caches.open(CACHE_NAME).then((cache) => {
-                        cache.put(request, responseClone);
-                    });
-                }
-                return response;
-            }).catch(() => {
-                // Offline and not cached - return offline page for navigation
-                if (request.mode === 'navigate') {
-                    return caches.match('./');
-                }
-                throw new Error('Offline');
-            });
+        caches.open(CACHE_NAME).then(async (cache) => {
+            // Every navigation (`#...` links, `?embed`, `?share`) opens this version's app
+            const precached = request.mode === 'navigate' && PRECACHED
+                ? await cache.match(APP_SHELL)
+                : await cache.match(request);
+            return precached || fromRuntimeCache(request);
         })
     );
 });
@@ -0,0 +1,114 @@
+/**
+ * Stand-in signaling relay for live sessions, for local development and
+ * testing. Holds each room's offer and answer in memory:
+ *
+ *   POST /<room>/offer    stores the host's offer (body: SDP)
+ *   GET  /<room>/offer    the offer, waiting up to 25 s; 204 if none came
+ *   POST /<room>/answer   stores the guest's answer
+ *   GET  /<room>/answer   same, for the host
+ *
+ * Rooms are dropped after 10 minutes without a request. The relay only sees
+ * the SDP; the session itself runs browser to browser.
+ *
+ * Usage: npm run signaling   (PORT=8787 by default, 0 picks a free one;
+ *                            ROOM_IDLE_TIME in ms)
+ */
+import { createServer } from 'node:http';
+
+const PORT = process.env.PORT ? Number(process.env.PORT) : 8787;
+const MAX_BODY = 64 * 1024;
+const POLL_TIMEOUT = 25_000;
+const ROOM_IDLE_TIME = Number(process.env.ROOM_IDLE_TIME) || 10 * 60_000;
+
+// room -> { offer, answer, waiting: { offer: Set, answer: Set }, timer }
+const rooms = new Map();
+
+/**
+ * The room for a request, created on first use. Every request restarts
+ * its idle timer.
+ */
+function getRoom(name) {
+    let room = rooms.get(name);
+    if (!room) {
+        room = {
+            offer: null,
+            answer: null,
+            waiting: { offer: new Set(), answer: new Set() },
+            timer: null,
+        };
+        rooms.set(name, room);
+    }
+    clearTimeout(room.timer);
+    room.timer = setTimeout(() => rooms.delete(name), ROOM_IDLE_TIME);
+    return room;
+}
+
+function reply(response, status, body = '') {
+    response.writeHead(status, {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type',
+        'Content-Type': 'text/plain; charset=utf-8',
+    });
+    response.end(body);
+}
+
+function readBody(request) {
+    return new Promise((resolve, reject) => {
+        let body = '';
+        request.setEncoding('utf8');
+        request.on('data', chunk => {
+            body += chunk;
+            if (body.length > MAX_BODY) {
+                reject(new Error('Body too large'));
+                request.destroy();
+            }
+        });
+        request.on('end', () => resolve(body));
+        request.on('error', reject);
+    });
+}
+
+const server = createServer(async (request, response) => {
+    if (request.method === 'OPTIONS') return reply(response, 204);
+
+    const match = /^\/([\w-]{1,64})\/(offer|answer)$/.exec(new URL(request.url, 'http://localhost').pathname);
+    if (!match) return reply(response, 404, 'Not found');
+    const [, name, type] = match;
+    const room = getRoom(name);
+
+    if (request.method === 'POST') {
+        let body;
+        try {
+            body = await readBody(request);
+        } catch {
+            return reply(response, 413, 'Too large');
+        }
+        room[type] = body;
+        for (const waiter of room.waiting[type]) waiter(body);
+        room.waiting[type].clear();
+        return reply(response, 204);
+    }
+
+    if (request.method !== 'GET') return reply(response, 405, 'Method not allowed');
+    if (room[type] !== null) return reply(response, 200, room[type]);
+
+    // Long poll until the other peer posts, or time runs out
+    const waiter = body => {
+        clearTimeout(timer);
+        reply(response, 200, body);
+    };
+    const timer = setTimeout(() => {
+        room.waiting[type].delete(waiter);
+        reply(response, 204);
+    }, POLL_TIMEOUT);
+    room.waiting[type].add(waiter);
+    response.on('close', () => {
+        clearTimeout(timer);
+        room.waiting[type].delete(waiter);
+    });
+});
+
+server.listen(PORT, () => {
+    console.log(`snippt signaling relay on http://localhost:${server.address().port}`);
+});
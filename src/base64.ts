@@ -0,0 +1,45 @@
+/**
+ * URL-safe Base64 alphabet (RFC 4648 §5). Written out rather than going
+ * through btoa/atob so the codec runs anywhere, not just in browsers.
+ */
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+const LOOKUP = new Map([...ALPHABET].map((char, index) => [char, index]));
+
+/**
+ * URL-safe Base64 encoding (no padding, using - and _ instead of + and /)
+ */
+export function toUrlSafeBase64(data: Uint8Array): string {
+    let out = '';
+    for (let i = 0; i < data.length; i += 3) {
+        const chunk = (data[i] << 16) | ((data[i + 1] ?? 0) << 8) | (data[i + 2] ?? 0);
+        const chars = Math.min(data.length - i, 3) + 1;
+        for (let j = 0; j < chars; j++) {
+            out += ALPHABET[(chunk >> (18 - 6 * j)) & 0x3f];
+        }
+    }
+    return out;
+}
+
+/**
+ * URL-safe Base64 decoding. Also accepts standard Base64 and padding.
+ */
+export function fromUrlSafeBase64(str: string): Uint8Array {
+    const clean = str.replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+    const bytes = new Uint8Array(Math.floor(clean.length * 3 / 4));
+
+    let buffer = 0;
+    let bits = 0;
+    let length = 0;
+    for (const char of clean) {
+        const value = LOOKUP.get(char);
+        if (value === undefined) throw new Error(`Invalid Base64 character: ${char}`);
+        buffer = ((buffer << 6) | value) & 0x3fff;
+        bits += 6;
+        if (bits >= 8) {
+            bits -= 8;
+            bytes[length++] = (buffer >> bits) & 0xff;
+        }
+    }
+    return bytes.subarray(0, length);
+}
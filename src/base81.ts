@@ -0,0 +1,67 @@
+/**
+ * Every character allowed unescaped in a URL fragment (RFC 3986):
+ * unreserved, sub-delims, ":", "@", "/" and "?".
+ */
+const ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz-._~!$&\'()*+,;=:@/?';
+const BASE = BigInt(ALPHABET.length);
+
+/**
+ * Bytes are encoded in blocks of 19 → 24 characters (≈1.263 chars/byte vs 1.333 for Base64).
+ * A shorter final block of r bytes uses the fewest characters that can hold 256^r values,
+ * which grows strictly with r, so the decoder can recover r from the character count.
+ */
+const BLOCK_BYTES = 19;
+const CHARS_FOR_BYTES: number[] = [];
+for (let bytes = 0; bytes <= BLOCK_BYTES; bytes++) {
+    let chars = 0;
+    while (BASE ** BigInt(chars) < 256n ** BigInt(bytes)) chars++;
+    CHARS_FOR_BYTES.push(chars);
+}
+const BLOCK_CHARS = CHARS_FOR_BYTES[BLOCK_BYTES];
+
+/**
+ * Encodes bytes with the full URL-fragment alphabet
+ */
+export function toFragmentBase81(data: Uint8Array): string {
+    let result = '';
+    for (let start = 0; start < data.length; start += BLOCK_BYTES) {
+        const block = data.subarray(start, start + BLOCK_BYTES);
+
+        let value = 0n;
+        for (const byte of block) value = (value << 8n) | BigInt(byte);
+
+        let chars = '';
+        for (let i = 0; i < CHARS_FOR_BYTES[block.length]; i++) {
+            chars = ALPHABET[Number(value % BASE)] + chars;
+            value /= BASE;
+        }
+        result += chars;
+    }
+    return result;
+}
+
+/**
+ * Decodes a string produced by `toFragmentBase81`.
+ * Throws on characters outside the alphabet or an impossible length.
+ */
+export function fromFragmentBase81(str: string): Uint8Array {
+    const bytes: number[] = [];
+    for (let start = 0; start < str.length; start += BLOCK_CHARS) {
+        const block = str.slice(start, start + BLOCK_CHARS);
+
+        const length = CHARS_FOR_BYTES.indexOf(block.length);
+        if (length < 0) throw new Error('Invalid Base81 length');
+
+        let value = 0n;
+        for (const char of block) {
+            const digit = ALPHABET.indexOf(char);
+            if (digit < 0) throw new Error('Invalid Base81 character');
+            value = value * BASE + BigInt(digit);
+        }
+
+        for (let i = length - 1; i >= 0; i--) {
+            bytes.push(Number((value >> BigInt(i * 8)) & 0xffn));
+        }
+    }
+    return new Uint8Array(bytes);
+}
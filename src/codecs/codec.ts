@@ -0,0 +1,22 @@
+import type { SnippetData } from '../payload';
+
+/**
+ * Header flags (low nibble of the header byte).
+ */
+export const FLAG_DEFLATE = 0x1;     // Body is a raw deflate stream
+export const FLAG_DICTIONARY = 0x2;  // A dictionary was applied (v3+: a dictionary byte leads the body)
+export const FLAG_ENCRYPTED = 0x4;   // Body is passphrase-encrypted (see crypto.ts)
+
+export interface EncodedBody {
+    flags: number;
+    body: Uint8Array;
+}
+
+/**
+ * A versioned codec. Once a version has shipped its decoder must keep
+ * reading the links it produced - format changes get a new version.
+ */
+export interface Codec {
+    encode(data: SnippetData): EncodedBody;
+    decode(body: Uint8Array, flags: number): SnippetData;
+}
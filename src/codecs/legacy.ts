@@ -0,0 +1,33 @@
+import { strFromU8, decompressSync } from 'fflate';
+import { fromUrlSafeBase64 } from '../base64';
+import { reverseDictionaryUnescaped } from '../dictionary';
+import type { SnippetData } from '../payload';
+
+/**
+ * Decodes links created before the versioned format existed.
+ * Pipeline: base64 → gzip → dictionary → `lang|code`
+ */
+export function decodeLegacy(hash: string): SnippetData | null {
+    const compressed = fromUrlSafeBase64(hash);
+    const decompressed = strFromU8(decompressSync(compressed));
+
+    if (!decompressed) return null;
+
+    // Reverse dictionary compression
+    const restored = reverseDictionaryUnescaped(decompressed);
+
+    // Check if language is embedded (format: lang|code)
+    const pipeIndex = restored.indexOf('|');
+    if (pipeIndex > 0 && pipeIndex < 20) { // Language names are short
+        const possibleLang = restored.substring(0, pipeIndex);
+        // Only treat as language if it looks like one (no special chars except -)
+        if (/^[a-zA-Z][a-zA-Z0-9-]*$/.test(possibleLang)) {
+            return {
+                lang: possibleLang,
+                code: restored.substring(pipeIndex + 1)
+            };
+        }
+    }
+
+    return { code: restored };
+}
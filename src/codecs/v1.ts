@@ -0,0 +1,26 @@
+import { deflateSync, inflateSync } from 'fflate';
+import { applyDictionaryUnescaped, reverseDictionaryUnescaped } from '../dictionary';
+import { parsePayload, serializePayload } from '../payload';
+import { FLAG_DEFLATE, FLAG_DICTIONARY } from './codec';
+import type { Codec } from './codec';
+
+/**
+ * Version 1: structured payload → dictionary → raw deflate.
+ * Raw deflate drops the 18 bytes of gzip framing legacy links carry.
+ */
+export const v1: Codec = {
+    encode(data) {
+        const payload = serializePayload({ ...data, code: applyDictionaryUnescaped(data.code) });
+        return {
+            flags: FLAG_DEFLATE | FLAG_DICTIONARY,
+            body: deflateSync(payload, { level: 9 }),
+        };
+    },
+
+    decode(body, flags) {
+        const payload = flags & FLAG_DEFLATE ? inflateSync(body) : body;
+        const data = parsePayload(payload);
+        if (flags & FLAG_DICTIONARY) data.code = reverseDictionaryUnescaped(data.code);
+        return data;
+    },
+};
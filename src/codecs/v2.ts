@@ -0,0 +1,26 @@
+import { deflateSync, inflateSync } from 'fflate';
+import { applyDictionary, reverseDictionary } from '../dictionary';
+import { parsePayload, serializePayload } from '../payload';
+import { FLAG_DEFLATE, FLAG_DICTIONARY } from './codec';
+import type { Codec } from './codec';
+
+/**
+ * Version 2: same pipeline as v1, but the dictionary stage escapes
+ * Private Use Area characters so any Unicode input round-trips.
+ */
+export const v2: Codec = {
+    encode(data) {
+        const payload = serializePayload({ ...data, code: applyDictionary(data.code) });
+        return {
+            flags: FLAG_DEFLATE | FLAG_DICTIONARY,
+            body: deflateSync(payload, { level: 9 }),
+        };
+    },
+
+    decode(body, flags) {
+        const payload = flags & FLAG_DEFLATE ? inflateSync(body) : body;
+        const data = parsePayload(payload);
+        if (flags & FLAG_DICTIONARY) data.code = reverseDictionary(data.code);
+        return data;
+    },
+};
@@ -0,0 +1,80 @@
+import { deflateSync, inflateSync } from 'fflate';
+import { applyDictionary, reverseDictionary } from '../dictionary';
+import { dictionaryById, dictionaryForLanguage, presetBytes } from '../dictionaries';
+import { mapCode, parsePayload, serializePayload } from '../payload';
+import { FLAG_DEFLATE, FLAG_DICTIONARY } from './codec';
+import type { Codec, EncodedBody } from './codec';
+
+/**
+ * High bit of the dictionary byte: the dictionary was used as a deflate
+ * preset instead of for token substitution. Low 7 bits are the dictionary id.
+ */
+const PRESET_BIT = 0x80;
+
+/**
+ * Prefixes a compressed body with its dictionary byte
+ */
+function withDictionaryByte(dictByte: number, compressed: Uint8Array): Uint8Array {
+    const body = new Uint8Array(compressed.length + 1);
+    body[0] = dictByte;
+    body.set(compressed, 1);
+    return body;
+}
+
+/**
+ * Version 3: per-language dictionaries.
+ * Body: [dictionary byte] + structured payload, where the dictionary of the first
+ * file's language is applied to every file either as tokens or as a deflate preset.
+ * All files share one deflate stream, so repeated code across files is cheap. The header flags say which
+ * stages ran, so the encoder is free to skip any of them.
+ */
+export const v3: Codec = {
+    /**
+     * Tries every pipeline and keeps the shortest body. On tiny snippets the
+     * deflate framing can cost more than it saves, so raw often wins.
+     */
+    encode(data) {
+        const dict = dictionaryForLanguage(data.lang);
+        const payload = serializePayload(data);
+        const tokenized = serializePayload(mapCode(data, code => applyDictionary(code, dict.tokens)));
+
+        const candidates: EncodedBody[] = [
+            { flags: 0, body: payload },
+            { flags: FLAG_DEFLATE, body: deflateSync(payload, { level: 9 }) },
+            { flags: FLAG_DICTIONARY, body: withDictionaryByte(dict.id, tokenized) },
+            {
+                flags: FLAG_DEFLATE | FLAG_DICTIONARY,
+                body: withDictionaryByte(dict.id, deflateSync(tokenized, { level: 9 })),
+            },
+            {
+                flags: FLAG_DEFLATE | FLAG_DICTIONARY,
+                body: withDictionaryByte(
+                    dict.id | PRESET_BIT,
+                    deflateSync(payload, { level: 9, dictionary: presetBytes(dict) })
+                ),
+            },
+        ];
+
+        return candidates.reduce((best, candidate) =>
+            candidate.body.length < best.body.length ? candidate : best);
+    },
+
+    decode(body, flags) {
+        if (!(flags & FLAG_DICTIONARY)) {
+            return parsePayload(flags & FLAG_DEFLATE ? inflateSync(body) : body);
+        }
+
+        const dict = dictionaryById(body[0] & ~PRESET_BIT);
+        if (!dict) throw new Error('Unknown dictionary');
+
+        const usePreset = (body[0] & PRESET_BIT) !== 0;
+        const compressed = body.subarray(1);
+
+        if (usePreset) {
+            return parsePayload(inflateSync(compressed, { dictionary: presetBytes(dict) }));
+        }
+
+        const data = parsePayload(flags & FLAG_DEFLATE ? inflateSync(compressed) : compressed);
+        return mapCode(data, code => reverseDictionary(code, dict.tokens));
+    },
+};
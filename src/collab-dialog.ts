@@ -0,0 +1,259 @@
+import { DEFAULT_ICE_SERVERS, parseIceServers } from './collab-peer';
+import { createManualSignaling, createRoomCode, createServerSignaling } from './collab-signaling';
+import type { PeerRole, Signaling } from './collab-signaling';
+
+export interface CollabChoice {
+  role: PeerRole;
+  /** Shown to the other user next to this user's cursor */
+  name: string;
+  /** STUN and TURN servers for finding a route between the browsers */
+  iceServers: RTCIceServer[];
+}
+
+/** Connects with the given signaling; rejects if that fails */
+export type CollabConnect = (choice: CollabChoice, signaling: Signaling, abort: AbortSignal) => Promise<void>;
+
+// Remembered between sessions
+const SIGNALING_URL_KEY = 'snippt-signaling-url';
+const ICE_SERVERS_KEY = 'snippt-ice-servers';
+const USER_NAME_KEY = 'snippt-user-name';
+
+/**
+ * Reads a remembered setting ('' if unset or unreadable).
+ */
+function readSetting(key: string): string {
+  try {
+    return localStorage.getItem(key) || '';
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Remembers a setting for next time.
+ */
+function writeSetting(key: string, value: string): void {
+  try {
+    localStorage.setItem(key, value);
+  } catch {
+    // Private mode: asked again next time
+  }
+}
+
+/**
+ * Shows the live session dialog: start or join, then pass the codes (or the
+ * room code, with a signaling server) until `connect` succeeds.
+ * Resolves true once connected, or false if the user cancels.
+ */
+export function askCollaboration(connect: CollabConnect): Promise<boolean> {
+  return new Promise(resolve => {
+    const overlay = document.createElement('div');
+    overlay.className = 'dialog-overlay';
+
+    const form = document.createElement('form');
+    form.className = 'dialog collab-dialog';
+    form.innerHTML = `
+      <h2 class="dialog-title">Live session</h2>
+      <div class="collab-setup">
+        <p class="dialog-message">Edit together with someone else, directly between your two browsers.</p>
+        <label class="dialog-option"><input type="radio" name="role" value="host" checked /> Start a session with this snippet</label>
+        <label class="dialog-option"><input type="radio" name="role" value="guest" /> Join someone else's session</label>
+        <label class="dialog-option collab-field">
+          Your name
+          <input class="dialog-input" name="name" maxlength="24" placeholder="Shown next to your cursor" />
+        </label>
+        <label class="dialog-option collab-field">
+          Signaling server
+          <input class="dialog-input" name="server" type="url" placeholder="None: copy and paste codes" />
+        </label>
+        <label class="dialog-option collab-field">
+          STUN/TURN servers
+          <input class="dialog-input" name="ice" placeholder="${DEFAULT_ICE_SERVERS}"
+            title="Space-separated; TURN credentials as turn:user:password@host" />
+        </label>
+      </div>
+      <div class="collab-steps" hidden>
+        <p class="dialog-message collab-instructions"></p>
+        <div class="collab-code-row" hidden>
+          <textarea class="dialog-input collab-code" readonly rows="3"></textarea>
+          <button type="button" class="dialog-button collab-copy">Copy</button>
+        </div>
+        <textarea class="dialog-input collab-reply" rows="3" hidden></textarea>
+      </div>
+      <p class="dialog-error" hidden></p>
+      <div class="dialog-actions">
+        <button type="button" class="dialog-button dialog-cancel">Cancel</button>
+        <button type="submit" class="dialog-button primary">Continue</button>
+      </div>
+    `;
+
+    const setup = form.querySelector('.collab-setup') as HTMLElement;
+    const steps = form.querySelector('.collab-steps') as HTMLElement;
+    const instructions = form.querySelector('.collab-instructions') as HTMLElement;
+    const codeRow = form.querySelector('.collab-code-row') as HTMLElement;
+    const code = form.querySelector('.collab-code') as HTMLTextAreaElement;
+    const reply = form.querySelector('.collab-reply') as HTMLTextAreaElement;
+    const name = form.querySelector('input[name="name"]') as HTMLInputElement;
+    const server = form.querySelector('input[name="server"]') as HTMLInputElement;
+    const ice = form.querySelector('input[name="ice"]') as HTMLInputElement;
+    const error = form.querySelector('.dialog-error') as HTMLElement;
+    const submit = form.querySelector('button[type="submit"]') as HTMLButtonElement;
+
+    name.value = readSetting(USER_NAME_KEY);
+    server.value = readSetting(SIGNALING_URL_KEY);
+    ice.value = readSetting(ICE_SERVERS_KEY);
+
+    let choice: CollabChoice = { role: 'host', name: '', iceServers: [] };
+    let signaling: Signaling | null = null;
+    let abort = new AbortController();
+    // Set while a pasted code or room code is expected
+    let onReply: ((text: string) => void) | null = null;
+
+    const showError = (message: string) => {
+      error.textContent = message;
+      error.hidden = !message;
+    };
+
+    const showStep = (text: string, options: { code?: string; reply?: string; submit?: string }) => {
+      setup.hidden = true;
+      steps.hidden = false;
+      instructions.textContent = text;
+      codeRow.hidden = options.code === undefined;
+      code.value = options.code ?? '';
+      reply.hidden = options.reply === undefined;
+      reply.placeholder = options.reply ?? '';
+      reply.value = '';
+      submit.hidden = options.submit === undefined;
+      submit.disabled = false;
+      submit.textContent = options.submit ?? '';
+      if (!reply.hidden) reply.focus();
+    };
+
+    const showSetup = () => {
+      setup.hidden = false;
+      steps.hidden = true;
+      submit.hidden = false;
+      submit.disabled = false;
+      submit.textContent = 'Continue';
+      onReply = null;
+    };
+
+    const close = (connected: boolean) => {
+      abort.abort();
+      signaling?.close();
+      overlay.remove();
+      resolve(connected);
+    };
+
+    const start = (chosen: Signaling) => {
+      signaling = chosen;
+      abort = new AbortController();
+      const current = abort;
+      connect(choice, chosen, current.signal).then(
+        () => close(true),
+        (failure: Error) => {
+          if (current.signal.aborted) return;
+          chosen.close();
+          showSetup();
+          showError(`${failure.message}. Please start over.`);
+        }
+      );
+    };
+
+    const waiting = () => {
+      onReply = null;
+      submit.disabled = true;
+      submit.textContent = 'Connecting…';
+    };
+
+    const startManual = () => {
+      const manual = createManualSignaling(text => {
+        if (choice.role === 'host') {
+          showStep('Send this invitation to the other person, then paste their reply below.', {
+            code: text, reply: 'Paste the reply here', submit: 'Connect',
+          });
+          onReply = pasted => {
+            manual.deliver(pasted);
+            waiting();
+          };
+        } else {
+          showStep('Send this reply back. The session starts once it has been pasted on the other side.', { code: text });
+        }
+      });
+
+      if (choice.role === 'host') {
+        showStep('Preparing the invitation…', {});
+      } else {
+        showStep('Paste the invitation you were sent.', { reply: 'Paste the invitation here', submit: 'Next' });
+        onReply = pasted => {
+          manual.deliver(pasted);
+          showStep('Preparing the reply…', {});
+        };
+      }
+      start(manual);
+    };
+
+    const startWithServer = (url: string) => {
+      if (choice.role === 'host') {
+        const room = createRoomCode();
+        showStep('Give the other person this room code. The session starts when they join.', { code: room });
+        start(createServerSignaling(url, room, 'host'));
+      } else {
+        showStep('Enter the room code you were given.', { reply: 'Room code', submit: 'Join' });
+        onReply = room => {
+          if (!room.trim()) throw new Error('Enter a room code');
+          start(createServerSignaling(url, room.trim(), 'guest'));
+          waiting();
+        };
+      }
+    };
+
+    form.addEventListener('submit', (event) => {
+      event.preventDefault();
+      showError('');
+
+      if (!setup.hidden) {
+        const role = (form.querySelector('input[name="role"]:checked') as HTMLInputElement).value as PeerRole;
+        let iceServers: RTCIceServer[];
+        try {
+          iceServers = parseIceServers(ice.value);
+        } catch (failure) {
+          showError((failure as Error).message);
+          ice.select();
+          return;
+        }
+        choice = { role, name: name.value.trim() || (role === 'host' ? 'Host' : 'Guest'), iceServers };
+        const url = server.value.trim();
+        writeSetting(USER_NAME_KEY, name.value.trim());
+        writeSetting(SIGNALING_URL_KEY, url);
+        writeSetting(ICE_SERVERS_KEY, ice.value.trim());
+        if (url) startWithServer(url);
+        else startManual();
+        return;
+      }
+
+      try {
+        onReply?.(reply.value);
+      } catch (failure) {
+        showError((failure as Error).message);
+        reply.select();
+      }
+    });
+
+    form.querySelector('.collab-copy')!.addEventListener('click', async () => {
+      try {
+        await navigator.clipboard.writeText(code.value);
+      } catch {
+        code.select();
+      }
+    });
+    form.querySelector('.dialog-cancel')!.addEventListener('click', () => close(false));
+    form.addEventListener('keydown', (event) => {
+      if (event.key === 'Escape') close(false);
+    });
+
+    overlay.appendChild(form);
+    document.body.appendChild(overlay);
+    submit.focus();
+  });
+}
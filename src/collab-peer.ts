@@ -0,0 +1,127 @@
+import { SignalingClosedError } from './collab-signaling';
+import type { PeerRole, Signaling } from './collab-signaling';
+
+/**
+ * The WebRTC side of a live session: one peer connection with one ordered
+ * data channel. ICE candidates are gathered up front and sent inside the
+ * offer/answer, so signaling is a single message each way.
+ */
+export interface PeerConnection {
+  connection: RTCPeerConnection;
+  channel: RTCDataChannel;
+}
+
+// Public STUN server, used only to learn each peer's address outside its NAT
+export const DEFAULT_ICE_SERVERS = 'stun:stun.l.google.com:19302';
+
+// Candidates found by then are enough; slow interfaces are left out
+const GATHER_TIMEOUT = 5_000;
+
+/**
+ * Resolves once candidate gathering is complete (or has taken long enough).
+ */
+function gatheringComplete(connection: RTCPeerConnection): Promise<void> {
+  return new Promise(resolve => {
+    if (connection.iceGatheringState === 'complete') {
+      resolve();
+      return;
+    }
+    const done = () => {
+      clearTimeout(timer);
+      connection.removeEventListener('icegatheringstatechange', check);
+      resolve();
+    };
+    const check = () => {
+      if (connection.iceGatheringState === 'complete') done();
+    };
+    const timer = setTimeout(done, GATHER_TIMEOUT);
+    connection.addEventListener('icegatheringstatechange', check);
+  });
+}
+
+/**
+ * Resolves once the channel is open; rejects if the connection fails or
+ * `abort` fires first. There is no timeout: with copy-paste signaling the
+ * guest waits for the host to paste the answer.
+ */
+function channelOpen(connection: RTCPeerConnection, channel: Promise<RTCDataChannel>, abort?: AbortSignal): Promise<RTCDataChannel> {
+  return new Promise((resolve, reject) => {
+    abort?.addEventListener('abort', () => reject(new SignalingClosedError()));
+    connection.addEventListener('connectionstatechange', () => {
+      if (connection.connectionState === 'failed') reject(new Error('Could not reach the other browser'));
+    });
+    channel.then(open => {
+      if (open.readyState === 'open') resolve(open);
+      else open.addEventListener('open', () => resolve(open), { once: true });
+    });
+  });
+}
+
+/**
+ * Reads ICE servers written as space- or comma-separated URLs; TURN servers
+ * take their credentials as `turn:user:password@host`. Empty means
+ * `DEFAULT_ICE_SERVERS`. Throws if an entry is not a STUN or TURN URL.
+ */
+export function parseIceServers(text: string): RTCIceServer[] {
+  const entries = (text.trim() || DEFAULT_ICE_SERVERS).split(/[\s,]+/).filter(Boolean);
+  return entries.map(entry => {
+    const match = /^(stuns?|turns?):(?:([^:@]+):([^@]*)@)?([^\s@]+)$/.exec(entry);
+    if (!match) throw new Error(`Not a STUN or TURN server: ${entry}`);
+    const [, scheme, username, credential, address] = match;
+    if (username === undefined) return { urls: `${scheme}:${address}` };
+    if (!scheme.startsWith('turn')) throw new Error(`Only TURN servers take a user name: ${entry}`);
+    return { urls: `${scheme}:${address}`, username: decodeURIComponent(username), credential: decodeURIComponent(credential) };
+  });
+}
+
+/**
+ * Sets the local description and returns it with all gathered candidates.
+ */
+async function localDescription(connection: RTCPeerConnection, description: RTCSessionDescriptionInit): Promise<string> {
+  await connection.setLocalDescription(description);
+  await gatheringComplete(connection);
+  return connection.localDescription?.sdp ?? '';
+}
+
+/**
+ * Connects to the other peer through `signaling` and `iceServers`: the host
+ * offers and creates the channel, the guest answers and receives it.
+ * Rejects (and closes the connection) if signaling or the connection fails,
+ * or `abort` fires.
+ */
+export async function connectPeer(
+  role: PeerRole,
+  signaling: Signaling,
+  iceServers: RTCIceServer[],
+  abort?: AbortSignal
+): Promise<PeerConnection> {
+  const connection = new RTCPeerConnection({ iceServers });
+
+  try {
+    let channel: Promise<RTCDataChannel>;
+    if (role === 'host') {
+      channel = Promise.resolve(connection.createDataChannel('snippt', { ordered: true }));
+      const offer = await localDescription(connection, await connection.createOffer());
+      await signaling.send({ type: 'offer', sdp: offer });
+
+      const answer = await signaling.receive();
+      if (answer.type !== 'answer') throw new Error('Expected an answer code');
+      await connection.setRemoteDescription(answer);
+    } else {
+      channel = new Promise(resolve => {
+        connection.addEventListener('datachannel', event => resolve(event.channel), { once: true });
+      });
+      const offer = await signaling.receive();
+      if (offer.type !== 'offer') throw new Error('Expected an invitation code');
+      await connection.setRemoteDescription(offer);
+
+      const answer = await localDescription(connection, await connection.createAnswer());
+      await signaling.send({ type: 'answer', sdp: answer });
+    }
+
+    return { connection, channel: await channelOpen(connection, channel, abort) };
+  } catch (error) {
+    connection.close();
+    throw error;
+  }
+}
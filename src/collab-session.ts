@@ -0,0 +1,277 @@
+import * as decoding from 'lib0/decoding';
+import * as encoding from 'lib0/encoding';
+import * as monaco from 'monaco-editor';
+import { MonacoBinding } from 'y-monaco';
+import { Awareness, applyAwarenessUpdate, encodeAwarenessUpdate, removeAwarenessStates } from 'y-protocols/awareness';
+import { messageYjsSyncStep2, readSyncMessage, writeSyncStep1, writeUpdate } from 'y-protocols/sync';
+import * as Y from 'yjs';
+import type { PeerConnection } from './collab-peer';
+import type { PeerRole } from './collab-signaling';
+import type { SnippetFile } from './compression';
+
+/**
+ * Live co-editing between two browsers. The files live in a Yjs document (a
+ * CRDT, so edits made at the same time merge without a server), each tab's
+ * model is bound to its text, and Yjs awareness carries the cursors and
+ * selections drawn in the other editor. Messages use the y-protocols wire
+ * format over the WebRTC data channel.
+ *
+ * Tabs are fixed for the length of a session: files can be edited and get
+ * another language, but not be added, renamed or removed.
+ */
+export interface CollabSessionOptions {
+  role: PeerRole;
+  editor: monaco.editor.IStandaloneCodeEditor;
+  /** Host: the files to share */
+  files?: SnippetFile[];
+  /** Opens the session's files (the host's own, or those received by the guest) and returns their models in order */
+  openFiles: (files: SnippetFile[]) => Promise<monaco.editor.ITextModel[]>;
+  /** Shown next to this user's cursor */
+  userName: string;
+  /** The other user changed the language of a file */
+  onLanguage: (model: monaco.editor.ITextModel) => void;
+  /** The other user joined (with their name) or left (null) */
+  onPeer: (name: string | null) => void;
+  /** The session is over, ended by either side or a lost connection */
+  onEnd: () => void;
+}
+
+// First varint of every message
+const MESSAGE_SYNC = 0;
+const MESSAGE_AWARENESS = 1;
+
+// Cursor colors; each user picks one at random
+const CURSOR_COLORS = ['#f78166', '#56d364', '#79c0ff', '#d2a8ff', '#e3b341', '#ff7b72', '#39c5cf'];
+
+// Remote names are cut to this length
+const MAX_NAME_LENGTH = 24;
+
+let options: CollabSessionOptions | null = null;
+let peer: PeerConnection | null = null;
+let doc: Y.Doc | null = null;
+let awareness: Awareness | null = null;
+let bindings: MonacoBinding[] = [];
+let disposables: monaco.IDisposable[] = [];
+// Name of the other user while they are connected
+let peerName: string | null = null;
+
+/**
+ * Whether a session is running.
+ */
+export function isCollaborating(): boolean {
+  return options !== null;
+}
+
+/**
+ * Sends a message if the channel is still open.
+ */
+function send(build: (encoder: encoding.Encoder) => void): void {
+  if (peer?.channel.readyState !== 'open') return;
+  const encoder = encoding.createEncoder();
+  build(encoder);
+  peer.channel.send(encoding.toUint8Array(encoder));
+}
+
+/**
+ * The shared list of files: maps of name, lang and text.
+ */
+function sharedFiles(): Y.Array<Y.Map<unknown>> {
+  return doc!.getArray<Y.Map<unknown>>('files');
+}
+
+/**
+ * Reads the shared files as plain snippet files.
+ */
+function filesOf(shared: Y.Array<Y.Map<unknown>>): SnippetFile[] {
+  return shared.toArray().map(file => ({
+    name: String(file.get('name') ?? ''),
+    lang: String(file.get('lang') ?? 'plaintext'),
+    code: String(file.get('text') ?? ''),
+    langLocked: true,
+  }));
+}
+
+/**
+ * Binds each model to its shared text and keeps the languages in step.
+ */
+function bind(models: monaco.editor.ITextModel[]): void {
+  if (!options || !doc || !awareness) return;
+
+  const editors = new Set([options.editor]);
+  sharedFiles().toArray().forEach((file, index) => {
+    const model = models[index];
+    const text = file.get('text');
+    if (!model || !(text instanceof Y.Text)) return;
+
+    bindings.push(new MonacoBinding(text, model, editors, awareness));
+    disposables.push(model.onDidChangeLanguage(() => {
+      if (file.get('lang') !== model.getLanguageId()) file.set('lang', model.getLanguageId());
+    }));
+    file.observe(event => {
+      const lang = file.get('lang');
+      if (!event.keysChanged.has('lang') || typeof lang !== 'string' || lang === model.getLanguageId()) return;
+      monaco.editor.setModelLanguage(model, lang);
+      options?.onLanguage(model);
+    });
+  });
+
+  // Remote cursors are drawn on awareness changes; redraw them for the new tab
+  disposables.push(options.editor.onDidChangeModel(() => {
+    awareness?.emit('change', [{ added: [], updated: [], removed: [] }, 'local']);
+  }));
+}
+
+/**
+ * Styles the other user's cursor and selection in their color, with their
+ * name above the cursor. Remote values are checked before going into CSS.
+ */
+function renderCursorStyles(): void {
+  if (!awareness) return;
+
+  const rules: string[] = [];
+  let name: string | null = null;
+  awareness.getStates().forEach((state, clientId) => {
+    if (clientId === awareness!.clientID || !Number.isInteger(clientId)) return;
+
+    const user = (state as { user?: { name?: unknown; color?: unknown } }).user;
+    const color = typeof user?.color === 'string' && /^#[0-9a-f]{6}$/i.test(user.color) ? user.color : CURSOR_COLORS[0];
+    name = typeof user?.name === 'string' && user.name.trim()
+      ? user.name.replace(/[\u0000-\u001f]/g, '').slice(0, MAX_NAME_LENGTH)
+      : 'Guest';
+
+    rules.push(
+      `.yRemoteSelection-${clientId} { background-color: ${color}40; }`,
+      `.yRemoteSelectionHead-${clientId} { border-color: ${color}; }`,
+      `.yRemoteSelectionHead-${clientId}::after { content: ${JSON.stringify(name)}; background: ${color}; }`
+    );
+  });
+
+  let style = document.getElementById('collab-cursors');
+  if (!style) {
+    style = document.createElement('style');
+    style.id = 'collab-cursors';
+    document.head.appendChild(style);
+  }
+  style.textContent = rules.join('\n');
+
+  if (name !== peerName) {
+    peerName = name;
+    options?.onPeer(name);
+  }
+}
+
+/**
+ * Handles one message from the other peer.
+ */
+async function receive(data: Uint8Array): Promise<void> {
+  if (!doc || !awareness || !options) return;
+
+  const decoder = decoding.createDecoder(data);
+  const type = decoding.readVarUint(decoder);
+  if (type === MESSAGE_AWARENESS) {
+    applyAwarenessUpdate(awareness, decoding.readVarUint8Array(decoder), peer);
+    return;
+  }
+  if (type !== MESSAGE_SYNC) return;
+
+  const reply = encoding.createEncoder();
+  encoding.writeVarUint(reply, MESSAGE_SYNC);
+  const syncType = readSyncMessage(decoder, reply, doc, peer);
+  if (encoding.length(reply) > 1) peer?.channel.send(encoding.toUint8Array(reply));
+
+  // The guest opens the files once the host's state has arrived
+  if (syncType === messageYjsSyncStep2 && options.role === 'guest' && bindings.length === 0) {
+    bind(await options.openFiles(filesOf(sharedFiles())));
+  }
+}
+
+/**
+ * Starts syncing over an open peer connection.
+ */
+export async function startCollabSession(connection: PeerConnection, sessionOptions: CollabSessionOptions): Promise<void> {
+  options = sessionOptions;
+  peer = connection;
+  doc = new Y.Doc();
+  awareness = new Awareness(doc);
+  awareness.setLocalStateField('user', {
+    name: sessionOptions.userName,
+    color: CURSOR_COLORS[Math.floor(Math.random() * CURSOR_COLORS.length)],
+  });
+
+  // Local changes go to the other peer; theirs arrive with the peer as origin
+  doc.on('update', (update: Uint8Array, origin: unknown) => {
+    if (origin !== peer) send(encoder => {
+      encoding.writeVarUint(encoder, MESSAGE_SYNC);
+      writeUpdate(encoder, update);
+    });
+  });
+  awareness.on('update', ({ added, updated, removed }: Record<string, number[]>, origin: unknown) => {
+    if (origin !== peer) send(encoder => {
+      encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+      encoding.writeVarUint8Array(encoder, encodeAwarenessUpdate(awareness!, [...added, ...updated, ...removed]));
+    });
+  });
+  awareness.on('change', renderCursorStyles);
+
+  connection.channel.binaryType = 'arraybuffer';
+  connection.channel.addEventListener('message', event => receive(new Uint8Array(event.data as ArrayBuffer)));
+  connection.channel.addEventListener('close', () => endCollabSession());
+  connection.connection.addEventListener('connectionstatechange', () => {
+    if (connection.connection.connectionState === 'failed') endCollabSession();
+  });
+
+  if (sessionOptions.role === 'host') {
+    const files = sessionOptions.files ?? [];
+    doc.transact(() => {
+      sharedFiles().push(files.map(file => {
+        const shared = new Y.Map<unknown>();
+        shared.set('name', file.name);
+        shared.set('lang', file.lang ?? 'plaintext');
+        shared.set('text', new Y.Text(file.code));
+        return shared;
+      }));
+    });
+    bind(await sessionOptions.openFiles(files));
+  }
+
+  send(encoder => {
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    writeSyncStep1(encoder, doc!);
+  });
+  send(encoder => {
+    encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+    encoding.writeVarUint8Array(encoder, encodeAwarenessUpdate(awareness!, [awareness!.clientID]));
+  });
+}
+
+/**
+ * Leaves the session: tells the other peer, removes the remote cursors and
+ * closes the connection. The editor keeps the text as it is now.
+ */
+export function endCollabSession(): void {
+  if (!options) return;
+  const ended = options;
+  options = null;
+
+  if (awareness) {
+    // Clears the remote cursors in the editor, and ours on the other side
+    const remote = Array.from(awareness.getStates().keys()).filter(id => id !== awareness!.clientID);
+    removeAwarenessStates(awareness, remote, 'local');
+    awareness.setLocalState(null);
+    awareness.destroy();
+  }
+  bindings.forEach(binding => binding.destroy());
+  disposables.forEach(disposable => disposable.dispose());
+  doc?.destroy();
+  peer?.channel.close();
+  peer?.connection.close();
+  document.getElementById('collab-cursors')?.remove();
+
+  bindings = [];
+  disposables = [];
+  awareness = null;
+  doc = null;
+  peer = null;
+  peerName = null;
+  ended.onEnd();
+}
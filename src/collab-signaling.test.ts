@@ -0,0 +1,101 @@
+import { spawn } from 'node:child_process';
+import type { ChildProcess } from 'node:child_process';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { SignalingClosedError, createRoomCode, createServerSignaling } from './collab-signaling';
+
+/**
+ * Server signaling against the stand-in relay (signaling/server.mjs), run on
+ * a free port with a short idle time so expiry can be seen.
+ */
+
+const ROOM_IDLE_TIME = 400;
+
+let relay: ChildProcess;
+let url = '';
+
+beforeAll(async () => {
+  relay = spawn(process.execPath, ['signaling/server.mjs'], {
+    env: { ...process.env, PORT: '0', ROOM_IDLE_TIME: String(ROOM_IDLE_TIME) },
+    stdio: ['ignore', 'pipe', 'inherit'],
+  });
+  url = await new Promise<string>((resolve, reject) => {
+    relay.stdout!.setEncoding('utf8').on('data', (line: string) => {
+      const match = /http:\/\/\S+/.exec(line);
+      if (match) resolve(match[0]);
+    });
+    relay.on('exit', code => reject(new Error(`Relay exited with ${code}`)));
+  });
+});
+
+afterAll(() => {
+  relay?.kill();
+});
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Whether the room still holds an offer; an empty room would long-poll, so
+ * the request is cut short.
+ */
+async function hasOffer(room: string): Promise<boolean> {
+  try {
+    const response = await fetch(`${url}/${room}/offer`, { signal: AbortSignal.timeout(200) });
+    return response.status === 200;
+  } catch {
+    return false;
+  }
+}
+
+describe('createServerSignaling', () => {
+  it('passes the offer to the guest and the answer to the host', async () => {
+    const room = createRoomCode();
+    const host = createServerSignaling(`${url}/`, room, 'host');
+    const guest = createServerSignaling(url, room, 'guest');
+
+    // The guest is already waiting when the offer comes in
+    const offer = guest.receive();
+    await host.send({ type: 'offer', sdp: 'v=0 offer' });
+    expect(await offer).toEqual({ type: 'offer', sdp: 'v=0 offer' });
+
+    await guest.send({ type: 'answer', sdp: 'v=0 answer' });
+    expect(await host.receive()).toEqual({ type: 'answer', sdp: 'v=0 answer' });
+  });
+
+  it('keeps rooms apart', async () => {
+    const host = createServerSignaling(url, createRoomCode(), 'host');
+    const other = createServerSignaling(url, createRoomCode(), 'guest');
+    await host.send({ type: 'offer', sdp: 'mine' });
+
+    const received = other.receive();
+    await sleep(100);
+    other.close();
+    await expect(received).rejects.toBeInstanceOf(SignalingClosedError);
+  });
+
+  it('rejects a pending receive once closed', async () => {
+    const guest = createServerSignaling(url, createRoomCode(), 'guest');
+    const received = guest.receive();
+    guest.close();
+    await expect(received).rejects.toBeInstanceOf(SignalingClosedError);
+  });
+});
+
+describe('relay', () => {
+  it('keeps rooms while they are used and drops them once idle', async () => {
+    const room = createRoomCode();
+    await createServerSignaling(url, room, 'host').send({ type: 'offer', sdp: 'offer' });
+
+    // Requests keep the room alive well past one idle time
+    for (let i = 0; i < 4; i++) {
+      await sleep(ROOM_IDLE_TIME / 2);
+      expect(await hasOffer(room)).toBe(true);
+    }
+
+    await sleep(ROOM_IDLE_TIME * 1.5);
+    expect(await hasOffer(room)).toBe(false);
+  });
+
+  it('answers unknown paths with 404', async () => {
+    expect((await fetch(`${url}/not/a/room`)).status).toBe(404);
+  });
+});
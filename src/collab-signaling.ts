@@ -0,0 +1,142 @@
+import { deflateSync, inflateSync, strFromU8, strToU8 } from 'fflate';
+import { fromUrlSafeBase64, toUrlSafeBase64 } from './base64';
+
+/**
+ * How the two peers of a live session find each other. Connections are
+ * set up without trickle ICE, so each side sends exactly one message: the
+ * host an offer, the guest an answer (candidates included).
+ *
+ * Two implementations: copy-paste codes (no server at all), and a small
+ * HTTP relay (see signaling/server.mjs for a local stand-in).
+ */
+export type PeerRole = 'host' | 'guest';
+
+export interface SessionDescription {
+  type: 'offer' | 'answer';
+  sdp: string;
+}
+
+export interface Signaling {
+  /** Delivers the local offer or answer to the other peer */
+  send(description: SessionDescription): Promise<void>;
+  /** Resolves with the other peer's offer or answer */
+  receive(): Promise<SessionDescription>;
+  /** Stops waiting; a pending `receive` rejects */
+  close(): void;
+}
+
+/**
+ * Thrown by `receive` after `close`.
+ */
+export class SignalingClosedError extends Error {
+  constructor() {
+    super('Signaling closed');
+    this.name = 'SignalingClosedError';
+  }
+}
+
+// Tells codes apart from other pasted text
+const CODE_PREFIX = 'snippt:';
+
+/**
+ * A session description as a short text code to copy between browsers.
+ */
+export function encodeSignal(description: SessionDescription): string {
+  const json = JSON.stringify({ t: description.type, s: description.sdp });
+  return CODE_PREFIX + toUrlSafeBase64(deflateSync(strToU8(json), { level: 9 }));
+}
+
+/**
+ * Reverses `encodeSignal`. Throws if the text is not a code.
+ */
+export function decodeSignal(code: string): SessionDescription {
+  const text = code.trim();
+  let parsed: { t?: unknown; s?: unknown } | null = null;
+  if (text.startsWith(CODE_PREFIX)) {
+    try {
+      parsed = JSON.parse(strFromU8(inflateSync(fromUrlSafeBase64(text.slice(CODE_PREFIX.length)))));
+    } catch {
+      // Cut short or edited while copying
+    }
+  }
+
+  const type = parsed?.t;
+  const sdp = parsed?.s;
+  if ((type !== 'offer' && type !== 'answer') || typeof sdp !== 'string') throw new Error('Not a snippt session code');
+  return { type, sdp };
+}
+
+/**
+ * Copy-paste signaling: `send` hands the code to `show` for the user to pass
+ * on, and `receive` waits for the other side's code to be pasted into `deliver`.
+ */
+export interface ManualSignaling extends Signaling {
+  /** Takes the code pasted by the user. Throws if it is not a code. */
+  deliver(code: string): void;
+}
+
+/**
+ * Creates copy-paste signaling.
+ */
+export function createManualSignaling(show: (code: string) => void): ManualSignaling {
+  let resolveReceive: ((description: SessionDescription) => void) | null = null;
+  let rejectReceive: ((error: Error) => void) | null = null;
+  const received = new Promise<SessionDescription>((resolve, reject) => {
+    resolveReceive = resolve;
+    rejectReceive = reject;
+  });
+  // Nothing may be waiting yet when the dialog closes
+  received.catch(() => { });
+
+  return {
+    send: async (description) => show(encodeSignal(description)),
+    receive: () => received,
+    deliver: (code) => resolveReceive?.(decodeSignal(code)),
+    close: () => rejectReceive?.(new SignalingClosedError()),
+  };
+}
+
+/**
+ * Signaling through an HTTP relay: the offer and answer are posted to
+ * `<server>/<room>/offer` and `<server>/<room>/answer`, and fetched from there
+ * by long polling (the relay answers 204 when nothing came in time). Both
+ * peers use the same room code.
+ */
+export function createServerSignaling(server: string, room: string, role: PeerRole): Signaling {
+  const base = `${server.replace(/\/+$/, '')}/${encodeURIComponent(room)}`;
+  const abort = new AbortController();
+  const expected = role === 'host' ? 'answer' : 'offer';
+
+  return {
+    send: async (description) => {
+      const response = await fetch(`${base}/${description.type}`, {
+        method: 'POST',
+        body: description.sdp,
+        signal: abort.signal,
+      });
+      if (!response.ok) throw new Error(`Signaling server replied ${response.status}`);
+    },
+    receive: async () => {
+      while (!abort.signal.aborted) {
+        let response: Response;
+        try {
+          response = await fetch(`${base}/${expected}`, { signal: abort.signal });
+        } catch (error) {
+          if (abort.signal.aborted) break;
+          throw error;
+        }
+        if (response.status === 200) return { type: expected, sdp: await response.text() };
+        if (response.status !== 204) throw new Error(`Signaling server replied ${response.status}`);
+      }
+      throw new SignalingClosedError();
+    },
+    close: () => abort.abort(),
+  };
+}
+
+/**
+ * A random room code for the relay.
+ */
+export function createRoomCode(): string {
+  return toUrlSafeBase64(crypto.getRandomValues(new Uint8Array(6)));
+}
@@ -0,0 +1,159 @@
+import fc from 'fast-check';
+import { describe, expect, it } from 'vitest';
+import { decode, decodeEncrypted, encode, encodeEncrypted, normalizeCode } from './compression';
+import type { SnippetData } from './compression';
+import { DICTIONARY, applyDictionary, reverseDictionary } from './dictionary';
+
+/**
+ * Round-trip properties of the link codec. Strings are built from pieces the
+ * codec treats specially (dictionary patterns, the token range and its escape,
+ * line endings, surrogates, the legacy `lang|` separator) so the interesting
+ * cases come up far more often than in uniformly random text.
+ */
+
+const PASSPHRASE = 'correct horse battery staple';
+
+// Encrypted runs share one key derivation (see crypto.ts), but still cost an AES pass each
+const ENCRYPTED_RUNS = 30;
+
+const piece = fc.oneof(
+    fc.string(),
+    fc.string({ unit: 'grapheme' }),
+    // Any UTF-16 code unit, lone surrogates included
+    fc.string({ unit: 'binary' }),
+    // Private Use Area, the dictionary's token range and its escape
+    fc.integer({ min: 0xE000, max: 0xF8FF }).map(c => String.fromCharCode(c)),
+    fc.constant('\uE01F'),
+    // Astral plane, supplementary PUA included
+    fc.constantFrom('😀', '👩‍💻', '𝔘', '\u{F0000}', '\u{10FFFD}'),
+    fc.constantFrom('\r\n', '\n', '\r', '\t', ' ', '    '),
+    fc.constantFrom('\uD800', '\uDBFF', '\uDC00', '\uDFFF'),
+    fc.constantFrom('|', 'js|', 'python|', 'a|b'),
+    fc.constantFrom(...DICTIONARY.map(([pattern]) => pattern)),
+);
+
+const text = fc.array(piece, { maxLength: 12 }).map(pieces => pieces.join(''));
+
+/**
+ * Lone surrogates are not Unicode; like TextEncoder, the codec stores them as U+FFFD.
+ */
+function wellFormed(value: string): string {
+    return value.replace(/[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/g, '\uFFFD');
+}
+
+const snippet = fc.record({
+    code: text,
+    lang: fc.option(fc.constantFrom('javascript', 'python', 'json', 'markdown', 'plaintext'), { nil: undefined }),
+    name: fc.option(fc.string({ minLength: 1, maxLength: 20 }), { nil: undefined }),
+    files: fc.option(fc.array(fc.record({
+        name: fc.string({ minLength: 1, maxLength: 20 }),
+        code: text,
+        lang: fc.option(fc.constantFrom('typescript', 'shell', 'yaml'), { nil: undefined }),
+    }), { minLength: 1, maxLength: 3 }), { nil: undefined }),
+}, { requiredKeys: ['code'] });
+
+/**
+ * What a decoder should hand back for `data`: `preserve` snippets exactly,
+ * others normalized, with lone surrogates replaced either way.
+ */
+function expected(data: SnippetData): SnippetData {
+    const fix = (code: string) => data.preserve ? wellFormed(code) : normalizeCode(wellFormed(code));
+    const result: SnippetData = { code: fix(data.code) };
+    if (data.lang) result.lang = data.lang;
+    if (data.name) result.name = wellFormed(data.name);
+    if (data.preserve) result.preserve = true;
+    if (data.files) {
+        result.files = data.files.map(file => ({ name: wellFormed(file.name), code: fix(file.code), lang: file.lang }));
+    }
+    return result;
+}
+
+describe('dictionary', () => {
+    it('reverses any input', () => {
+        fc.assert(fc.property(text, value => {
+            expect(reverseDictionary(applyDictionary(value))).toBe(value);
+        }), { numRuns: 1000 });
+    });
+});
+
+describe('encode/decode', () => {
+    it('round-trips exact snippets', () => {
+        fc.assert(fc.property(snippet, data => {
+            const exact = { ...data, preserve: true };
+            expect(decode(encode(exact))).toEqual(expected(exact));
+        }), { numRuns: 500 });
+    });
+
+    it('round-trips normalized snippets', () => {
+        fc.assert(fc.property(snippet, data => {
+            expect(decode(encode(data))).toEqual(expected(data));
+        }), { numRuns: 500 });
+    });
+
+    it.each([
+        ['empty input', ''],
+        ['a pipe first', '|x'],
+        ['a language-like prefix', 'js|console.log(1)'],
+        ['the escape character', '\uE01F\uE000\uE01F'],
+        ['CRLF line endings', 'a\r\nb\r\n'],
+        ['emoji next to a dictionary pattern', '😀    return 😀'],
+    ])('keeps %s', (_, code) => {
+        expect(decode(encode({ code, preserve: true }))?.code).toBe(code);
+    });
+
+    it('never ends a hash in punctuation auto-linkers drop', () => {
+        fc.assert(fc.property(snippet, data => {
+            expect(encode(data)).not.toMatch(/[.,!?:;)']$/);
+        }), { numRuns: 500 });
+    });
+
+    it('stores ranges selected bottom-up top-down', () => {
+        const code = 'a\nb\nc\nd';
+        expect(decode(encode({ code, ranges: [{ file: 0, startLine: 3, endLine: 1 }] }))?.ranges)
+            .toEqual([{ file: 0, startLine: 1, endLine: 3 }]);
+        expect(decode(encode({ code, ranges: [{ file: 0, startLine: 4, endLine: 2, startColumn: 1, endColumn: 3 }] }))?.ranges)
+            .toEqual([{ file: 0, startLine: 2, endLine: 4, startColumn: 3, endColumn: 1 }]);
+        expect(decode(encode({ code, ranges: [{ file: 0, startLine: 2, endLine: 2, startColumn: 5, endColumn: 2 }] }))?.ranges)
+            .toEqual([{ file: 0, startLine: 2, endLine: 2, startColumn: 2, endColumn: 5 }]);
+    });
+
+    it('replaces lone surrogates without touching their neighbours', () => {
+        expect(decode(encode({ code: 'a\uD800b\uDC00c', preserve: true }))?.code).toBe('a\uFFFDb\uFFFDc');
+    });
+});
+
+describe('encodeEncrypted/decodeEncrypted', () => {
+    it('round-trips exact and normalized snippets', async () => {
+        await fc.assert(fc.asyncProperty(snippet, fc.boolean(), async (data, preserve) => {
+            const input = { ...data, preserve: preserve || undefined };
+            const hash = await encodeEncrypted(input, PASSPHRASE);
+            expect(decode(hash)).toBeNull();
+            expect(await decodeEncrypted(hash, PASSPHRASE)).toEqual(expected(input));
+        }), { numRuns: ENCRYPTED_RUNS });
+    });
+
+    it('keeps empty input', async () => {
+        const hash = await encodeEncrypted({ code: '', preserve: true }, PASSPHRASE);
+        expect((await decodeEncrypted(hash, PASSPHRASE))?.code).toBe('');
+    });
+});
+
+describe('minifyJson', () => {
+    const json = (indent: string) => `{\n${indent}"a": [\n${indent}${indent}1,\n${indent}${indent}2.50\n${indent}],\n${indent}"b": {}\n}`;
+
+    it.each([['two spaces', '  '], ['four spaces', '    '], ['tabs', '\t']])('restores %s exactly', (_, indent) => {
+        const data: SnippetData = { code: json(indent), lang: 'json', minifyJson: true, ranges: [{ file: 0, startLine: 3, endLine: 4 }] };
+        const decoded = decode(encode(data));
+        expect(decoded?.code).toBe(data.code);
+        expect(decoded?.minifyJson).toBe(true);
+        expect(encode(data).length).toBeLessThan(encode({ ...data, minifyJson: false }).length);
+    });
+
+    it('keeps formatting that re-indenting would change', () => {
+        const code = '{"a": 1,\n  "b": [1, 2]}';
+        const decoded = decode(encode({ code, original: '{"a": 1}', lang: 'json', minifyJson: true }));
+        expect(decoded?.code).toBe(code);
+        expect(decoded?.original).toBe('{"a": 1}');
+        expect(decoded?.minifyJson).toBeUndefined();
+    });
+});
@@ -1,73 +1,18 @@
-import { strToU8, strFromU8, compressSync, decompressSync } from 'fflate';
-
-export interface SnippetData {
-    code: string;
-    lang?: string;
-}
-
-/**
- * Global dictionary for common code patterns.
- * Uses Unicode Private Use Area (U+E000-U+E01F) as tokens to avoid conflicts.
- * Order matters: longer patterns should come first to avoid partial matches.
- */
-const DICTIONARY: [string, string][] = [
-    // Common multi-char patterns (longer first!)
-    ['    ', '\uE000'],           // 4-space indent (very common)
-    ['console.log(', '\uE001'],
-    ['function ', '\uE002'],
-    ['return ', '\uE003'],
-    ['const ', '\uE004'],
-    ['export ', '\uE005'],
-    ['import ', '\uE006'],
-    ['async ', '\uE007'],
-    ['await ', '\uE008'],
-    ['class ', '\uE009'],
-    ['this.', '\uE00A'],
-    ['null', '\uE00B'],
-    ['true', '\uE00C'],
-    ['false', '\uE00D'],
-    ['undefined', '\uE00E'],
-    ['=> {', '\uE00F'],
-    ['() {', '\uE010'],
-    [') {', '\uE011'],
-    ['": "', '\uE012'],
-    ['", "', '\uE013'],
-    [' = ', '\uE014'],
-    [' === ', '\uE015'],
-    [' !== ', '\uE016'],
-    ['public ', '\uE017'],
-    ['private ', '\uE018'],
-    ['static ', '\uE019'],
-    ['throw ', '\uE01A'],
-    ['catch ', '\uE01B'],
-    ['try {', '\uE01C'],
-    ['if (', '\uE01D'],
-    ['for (', '\uE01E'],
-];
-
-/**
- * Apply dictionary compression - replace patterns with tokens
- */
-function applyDictionary(text: string): string {
-    let result = text;
-    for (const [pattern, token] of DICTIONARY) {
-        result = result.split(pattern).join(token);
-    }
-    return result;
-}
-
-/**
- * Reverse dictionary compression - replace tokens with patterns
- */
-function reverseDictionary(text: string): string {
-    let result = text;
-    // Reverse order to handle any edge cases
-    for (let i = DICTIONARY.length - 1; i >= 0; i--) {
-        const [pattern, token] = DICTIONARY[i];
-        result = result.split(token).join(pattern);
-    }
-    return result;
-}
+import { toUrlSafeBase64, fromUrlSafeBase64 } from './base64';
+import { toFragmentBase81, fromFragmentBase81 } from './base81';
+import { decodeLegacy } from './codecs/legacy';
+import { v1 } from './codecs/v1';
+import { v2 } from './codecs/v2';
+import { v3 } from './codecs/v3';
+import { FLAG_ENCRYPTED } from './codecs/codec';
+import type { Codec } from './codecs/codec';
+import { decryptBytes, encryptBytes } from './crypto';
+import { indentJson, minifyJson } from './json-whitespace';
+import { mapCode, mapJsonCode } from './payload';
+import type { SnippetData } from './payload';
+
+export type { OutputLevel, SnippetData, SnippetFile, SnippetMeta, SnippetOutputLine, SnippetRange } from './payload';
+export { PassphraseError } from './crypto';
 
 /**
  * Normalize code to reduce size while preserving structure.
@@ -86,91 +31,202 @@ export function normalizeCode(code: string): string {
 }
 
 /**
- * URL-safe Base64 encoding (no padding, using - and _ instead of + and /)
+ * Rewrites JSON whitespace for `minifyJson` snippets. Code that does not
+ * parse (a half-written file) is left alone.
  */
-function toUrlSafeBase64(data: Uint8Array): string {
-    let binary = '';
-    for (let i = 0; i < data.length; i++) {
-        binary += String.fromCharCode(data[i]);
-    }
-    return btoa(binary)
-        .replace(/\+/g, '-')
-        .replace(/\//g, '_')
-        .replace(/=+$/, '');
+function rewriteJson(rewrite: (code: string) => string): (code: string) => string {
+    return code => {
+        try {
+            JSON.parse(code);
+        } catch {
+            return code;
+        }
+        return rewrite(code);
+    };
 }
 
 /**
- * URL-safe Base64 decoding
+ * Re-indents the JSON files of a decoded `minifyJson` snippet.
  */
-function fromUrlSafeBase64(str: string): Uint8Array {
-    // Restore standard Base64
-    let base64 = str.replace(/-/g, '+').replace(/_/g, '/');
-    // Add padding if needed
-    while (base64.length % 4) base64 += '=';
+function expandJson(data: SnippetData | null): SnippetData | null {
+    if (!data?.minifyJson) return data;
+    const { jsonIndent = '  ', ...rest } = data;
+    return mapJsonCode(rest, rewriteJson(code => indentJson(code, jsonIndent)));
+}
 
-    const binary = atob(base64);
-    const bytes = new Uint8Array(binary.length);
-    for (let i = 0; i < binary.length; i++) {
-        bytes[i] = binary.charCodeAt(i);
-    }
-    return bytes;
+// Indents tried when minifying, most common first
+const JSON_INDENTS = ['  ', '    ', '\t'];
+
+/**
+ * Whether two snippets hold the same code in every file
+ */
+function sameCode(a: SnippetData, b: SnippetData): boolean {
+    return a.code === b.code && a.original === b.original &&
+        (a.files ?? []).every((file, i) => file.code === b.files?.[i]?.code);
 }
 
 /**
- * Encodes code and optional language into a URL-safe compressed string.
- * Pipeline: normalize → dictionary → fflate → base64
+ * Minifies the JSON files of a `minifyJson` snippet, if some indent rebuilds
+ * all of them exactly on decode. Otherwise the whitespace is kept (and the
+ * flag dropped), so line numbers in ranges and diffs stay put.
  */
-export function encode(code: string, lang?: string): string {
-    const normalized = normalizeCode(code);
-    const payload = lang ? `${lang}|${normalized}` : normalized;
+function minifyJsonFiles(data: SnippetData): SnippetData {
+    const minified = mapJsonCode(data, rewriteJson(minifyJson));
+    const indent = JSON_INDENTS.find(candidate =>
+        sameCode(expandJson({ ...minified, jsonIndent: candidate })!, data));
+
+    if (indent === undefined) return { ...data, minifyJson: undefined, jsonIndent: undefined };
+    return { ...minified, jsonIndent: indent === '  ' ? undefined : indent };
+}
 
-    // Apply dictionary compression
-    const dictCompressed = applyDictionary(payload);
+/**
+ * Versioned hashes start with a marker naming the text alphabet of the rest.
+ * Both markers are outside the Base64 alphabet, so anything without one is a
+ * legacy (unversioned) link.
+ */
+const MARKER_BASE64 = '~';
+const MARKER_BASE81 = '.';
+
+// Auto-linkers leave these out of a link when they end it
+const TRAILING_PUNCTUATION = /[.,!?:;)']$/;
+
+/**
+ * Current format version, written to the high nibble of the header byte.
+ * Header byte layout: [version:4][flags:4]
+ */
+const CURRENT_VERSION = 3;
+
+/**
+ * Decoders for every version that has ever shipped.
+ */
+const CODECS: Record<number, Codec> = {
+    1: v1,
+    2: v2,
+    3: v3,
+};
+
+/**
+ * Normalizes (unless `preserve`), minifies JSON (if `minifyJson` and it can be restored exactly)
+ * and runs the current codec. Exact (`preserve`) snippets keep their whitespace, so they drop `minifyJson`.
+ */
+function encodeBytes(data: SnippetData): { flags: number; body: Uint8Array } {
+    const prepared = data.preserve ? { ...data, minifyJson: undefined } : mapCode(data, normalizeCode);
+    return CODECS[CURRENT_VERSION].encode(prepared.minifyJson ? minifyJsonFiles(prepared) : prepared);
+}
+
+/**
+ * Frames a codec body as a hash: header byte, then the shorter of base64/base81.
+ * Base81 is skipped when it would end in punctuation a pasted link loses.
+ */
+function toHash(flags: number, body: Uint8Array): string {
+    const bytes = new Uint8Array(body.length + 1);
+    bytes[0] = (CURRENT_VERSION << 4) | flags;
+    bytes.set(body, 1);
+
+    const base64 = MARKER_BASE64 + toUrlSafeBase64(bytes);
+    const base81 = MARKER_BASE81 + toFragmentBase81(bytes);
+    return base81.length < base64.length && !TRAILING_PUNCTUATION.test(base81) ? base81 : base64;
+}
+
+/**
+ * Reverses `toHash`. Returns null for legacy (unversioned) hashes.
+ */
+function fromHash(hash: string): Uint8Array | null {
+    if (hash.startsWith(MARKER_BASE64)) {
+        return fromUrlSafeBase64(hash.slice(MARKER_BASE64.length));
+    }
+    if (hash.startsWith(MARKER_BASE81)) {
+        // '%' is not in the alphabet, so any escapes were added by whoever passed the link on
+        return fromFragmentBase81(decodeURIComponent(hash.slice(MARKER_BASE81.length)));
+    }
+    return null;
+}
 
-    // Compress with fflate (level 9 for maximum compression)
-    const compressed = compressSync(strToU8(dictCompressed), { level: 9 });
+/**
+ * Encodes snippet data into a URL-safe compressed string.
+ * Pipeline: normalize (unless `preserve`) → minify JSON (if `minifyJson`) → versioned codec → header byte → shortest of base64/base81
+ */
+export function encode(data: SnippetData): string {
+    const { flags, body } = encodeBytes(data);
+    return toHash(flags, body);
+}
 
-    return toUrlSafeBase64(compressed);
+/**
+ * Encodes snippet data and encrypts the codec body with a passphrase.
+ * The header byte stays in clear text so the decoder knows to ask for one.
+ */
+export async function encodeEncrypted(data: SnippetData, passphrase: string): Promise<string> {
+    const { flags, body } = encodeBytes(data);
+    const encrypted = await encryptBytes(new Uint8Array(body), passphrase);
+    return toHash(flags | FLAG_ENCRYPTED, encrypted);
 }
 
 /**
- * Decodes a URL-safe compressed string back into code and language.
- * Pipeline: base64 → fflate → dictionary → code
+ * Decodes a URL-safe compressed string back into snippet data.
+ * Routes to the codec named in the header, or to the legacy decoder.
+ * Encrypted hashes return null - use `decodeEncrypted`.
  */
 export function decode(hash: string): SnippetData | null {
     if (!hash) return null;
 
     try {
-        const compressed = fromUrlSafeBase64(hash);
-        const decompressed = strFromU8(decompressSync(compressed));
-
-        if (!decompressed) return null;
-
-        // Reverse dictionary compression
-        const restored = reverseDictionary(decompressed);
-
-        // Check if language is embedded (format: lang|code)
-        const pipeIndex = restored.indexOf('|');
-        if (pipeIndex > 0 && pipeIndex < 20) { // Language names are short
-            const possibleLang = restored.substring(0, pipeIndex);
-            // Only treat as language if it looks like one (no special chars except -)
-            if (/^[a-zA-Z][a-zA-Z0-9-]*$/.test(possibleLang)) {
-                return {
-                    lang: possibleLang,
-                    code: restored.substring(pipeIndex + 1)
-                };
-            }
-        }
+        const bytes = fromHash(hash);
+        if (!bytes) return decodeLegacy(hash);
+        if (bytes.length < 1) return null;
+
+        const codec = CODECS[bytes[0] >> 4];
+        if (!codec) return null; // Link from a newer version
+
+        const flags = bytes[0] & 0x0f;
+        if (flags & FLAG_ENCRYPTED) return null;
 
-        return { code: restored };
+        return expandJson(codec.decode(bytes.subarray(1), flags));
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Returns true if the hash holds a passphrase-encrypted snippet.
+ */
+export function isEncrypted(hash: string): boolean {
+    try {
+        const bytes = fromHash(hash);
+        return !!bytes && bytes.length > 0 && (bytes[0] & FLAG_ENCRYPTED) !== 0;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Decrypts and decodes an encrypted hash.
+ * Throws `PassphraseError` on a wrong passphrase; returns null if the hash is malformed.
+ */
+export async function decodeEncrypted(hash: string, passphrase: string): Promise<SnippetData | null> {
+    let bytes: Uint8Array | null;
+    try {
+        bytes = fromHash(hash);
+    } catch {
+        return null;
+    }
+    if (!bytes || bytes.length < 1) return null;
+
+    const codec = CODECS[bytes[0] >> 4];
+    const flags = bytes[0] & 0x0f;
+    if (!codec || !(flags & FLAG_ENCRYPTED)) return null;
+
+    const body = await decryptBytes(bytes.subarray(1), passphrase);
+
+    try {
+        return expandJson(codec.decode(body, flags & ~FLAG_ENCRYPTED));
     } catch {
         return null;
     }
 }
 
 // URL length limits (characters)
-const URL_WARNING_LIMIT = 2000;  // Show warning
-const URL_ERROR_LIMIT = 8000;    // Too long for some browsers
+export const URL_WARNING_LIMIT = 2000;  // Show warning
+export const URL_ERROR_LIMIT = 8000;    // Too long for some browsers
 
 export interface UrlStatus {
     length: number;
@@ -179,32 +235,13 @@ export interface UrlStatus {
 }
 
 /**
- * Updates the URL hash with the encoded snippet data.
- * Returns status about URL length.
+ * Checks a full link's length against the warning and error limits.
  */
-export function updateUrlHash(code: string, lang?: string): UrlStatus {
-    const encoded = encode(code, lang);
-    const fullUrl = `${window.location.origin}${window.location.pathname}#${encoded}`;
-    const length = fullUrl.length;
-
-    const status: UrlStatus = {
+export function urlStatus(url: string): UrlStatus {
+    const length = url.length;
+    return {
         length,
         isWarning: length > URL_WARNING_LIMIT && length <= URL_ERROR_LIMIT,
         isError: length > URL_ERROR_LIMIT,
     };
-
-    // Only update URL if not exceeding error limit
-    if (!status.isError) {
-        history.replaceState(null, '', `#${encoded}`);
-    }
-
-    return status;
-}
-
-/**
- * Reads the snippet data from the current URL hash.
- */
-export function readUrlHash(): SnippetData | null {
-    const hash = window.location.hash.slice(1); // Remove leading #
-    return decode(hash);
 }
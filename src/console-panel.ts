@@ -0,0 +1,72 @@
+import type { SnippetOutputLine } from './compression';
+
+export interface ConsolePanelOptions {
+  /** Called when "In link" is toggled */
+  onShareChange: (share: boolean) => void;
+  /** Called after the panel opens or closes, so the editor can re-layout */
+  onResize: () => void;
+}
+
+let options: ConsolePanelOptions;
+
+/**
+ * Wires up the panel's controls.
+ */
+export function initConsolePanel(panelOptions: ConsolePanelOptions): void {
+  options = panelOptions;
+
+  document.getElementById('console-close')?.addEventListener('click', closeConsole);
+  document.querySelector('#console-share input')?.addEventListener('change', (event) => {
+    options.onShareChange((event.target as HTMLInputElement).checked);
+  });
+}
+
+/**
+ * Opens the panel with some output and a status line ("✓ 12 ms").
+ */
+export function showConsole(output: SnippetOutputLine[], status: string, statusClass = ''): void {
+  const panel = document.getElementById('console-panel');
+  const list = document.getElementById('console-output');
+  const statusLabel = document.getElementById('console-status');
+  if (!panel || !list || !statusLabel) return;
+
+  list.innerHTML = '';
+  for (const line of output) {
+    const item = document.createElement('div');
+    item.className = `console-line ${line.level}`;
+    item.textContent = line.text;
+    list.appendChild(item);
+  }
+  if (output.length === 0) {
+    const empty = document.createElement('div');
+    empty.className = 'console-line empty';
+    empty.textContent = 'No output';
+    list.appendChild(empty);
+  }
+
+  statusLabel.textContent = status;
+  statusLabel.className = `console-status ${statusClass}`.trim();
+
+  const wasHidden = panel.hidden;
+  panel.hidden = false;
+  if (wasHidden) options.onResize();
+}
+
+/**
+ * Syncs the "In link" checkbox.
+ */
+export function setConsoleShared(shared: boolean): void {
+  const checkbox = document.querySelector('#console-share input') as HTMLInputElement | null;
+  if (checkbox) checkbox.checked = shared;
+}
+
+/**
+ * Hides the panel.
+ */
+export function closeConsole(): void {
+  const panel = document.getElementById('console-panel');
+  if (!panel || panel.hidden) return;
+
+  panel.hidden = true;
+  options.onResize();
+}
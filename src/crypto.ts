@@ -0,0 +1,99 @@
+/**
+ * Passphrase encryption for snippet bodies (WebCrypto).
+ * Output layout: [salt:16][iv:12][AES-GCM ciphertext + tag]
+ *
+ * The KDF parameters are part of the link format - changing them breaks
+ * every encrypted link already shared.
+ */
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const PBKDF2_ITERATIONS = 600_000;
+
+/**
+ * Thrown when a body cannot be decrypted with the given passphrase.
+ * AES-GCM cannot tell a wrong passphrase from tampered data, so both end up here.
+ */
+export class PassphraseError extends Error {
+    constructor() {
+        super('Wrong passphrase');
+        this.name = 'PassphraseError';
+    }
+}
+
+/**
+ * Key derivation is deliberately slow, so the last key is kept and its salt
+ * reused for re-encrypting the same snippet on every edit.
+ */
+let cachedKey: { passphrase: string; salt: Uint8Array<ArrayBuffer>; key: CryptoKey } | null = null;
+
+/**
+ * Compares two byte arrays by value
+ */
+function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+    return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+/**
+ * Derives an AES-GCM key from a passphrase with PBKDF2-SHA256
+ */
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+    if (cachedKey && cachedKey.passphrase === passphrase && sameBytes(cachedKey.salt, salt)) {
+        return cachedKey.key;
+    }
+
+    const material = await crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(passphrase),
+        'PBKDF2',
+        false,
+        ['deriveKey']
+    );
+    const key = await crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+
+    cachedKey = { passphrase, salt, key };
+    return key;
+}
+
+/**
+ * Encrypts bytes with a passphrase. Every call uses a fresh IV.
+ */
+export async function encryptBytes(data: Uint8Array<ArrayBuffer>, passphrase: string): Promise<Uint8Array> {
+    const salt = cachedKey?.passphrase === passphrase
+        ? cachedKey.salt
+        : crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const key = await deriveKey(passphrase, salt);
+
+    const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data));
+
+    const result = new Uint8Array(SALT_BYTES + IV_BYTES + ciphertext.length);
+    result.set(salt, 0);
+    result.set(iv, SALT_BYTES);
+    result.set(ciphertext, SALT_BYTES + IV_BYTES);
+    return result;
+}
+
+/**
+ * Decrypts bytes produced by `encryptBytes`.
+ * Throws `PassphraseError` if the passphrase is wrong.
+ */
+export async function decryptBytes(data: Uint8Array, passphrase: string): Promise<Uint8Array> {
+    if (data.length < SALT_BYTES + IV_BYTES) throw new PassphraseError();
+
+    const salt = data.slice(0, SALT_BYTES);
+    const iv = data.slice(SALT_BYTES, SALT_BYTES + IV_BYTES);
+    const key = await deriveKey(passphrase, salt);
+
+    try {
+        const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, data.slice(SALT_BYTES + IV_BYTES));
+        return new Uint8Array(plain);
+    } catch {
+        throw new PassphraseError();
+    }
+}
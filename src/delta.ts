@@ -0,0 +1,130 @@
+import { strToU8, strFromU8 } from 'fflate';
+import { readVarint, writeVarint } from './varint';
+
+/**
+ * Line-based delta between two texts.
+ * Format: repeated ops of varints [copy, skip, insert count] followed by the
+ * inserted lines as [byte length, UTF-8 bytes]. Copy keeps lines of the base,
+ * skip drops them, and inserted lines come from the target.
+ */
+
+// Above this many LCS cells the middle section is stored as a plain replacement
+const MAX_LCS_CELLS = 2_000_000;
+
+interface DeltaOp {
+    copy: number;
+    skip: number;
+    insert: string[];
+}
+
+/**
+ * Longest-common-subsequence edit script for the lines that differ
+ * (common prefix and suffix are trimmed first).
+ */
+function diffLines(base: string[], target: string[]): DeltaOp[] {
+    let prefix = 0;
+    while (prefix < base.length && prefix < target.length && base[prefix] === target[prefix]) prefix++;
+
+    let suffix = 0;
+    while (
+        suffix < base.length - prefix &&
+        suffix < target.length - prefix &&
+        base[base.length - 1 - suffix] === target[target.length - 1 - suffix]
+    ) suffix++;
+
+    const a = base.slice(prefix, base.length - suffix);
+    const b = target.slice(prefix, target.length - suffix);
+    const ops: DeltaOp[] = [{ copy: prefix, skip: 0, insert: [] }];
+    const last = () => ops[ops.length - 1];
+
+    if ((a.length + 1) * (b.length + 1) > MAX_LCS_CELLS) {
+        last().skip = a.length;
+        last().insert = b;
+    } else {
+        // lcs[i][j] = LCS length of a[i..] and b[j..]
+        const width = b.length + 1;
+        const lcs = new Uint32Array((a.length + 1) * width);
+        for (let i = a.length - 1; i >= 0; i--) {
+            for (let j = b.length - 1; j >= 0; j--) {
+                lcs[i * width + j] = a[i] === b[j]
+                    ? lcs[(i + 1) * width + j + 1] + 1
+                    : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+            }
+        }
+
+        let i = 0;
+        let j = 0;
+        while (i < a.length || j < b.length) {
+            if (i < a.length && j < b.length && a[i] === b[j]) {
+                if (last().skip || last().insert.length) ops.push({ copy: 0, skip: 0, insert: [] });
+                last().copy++;
+                i++;
+                j++;
+            } else if (j < b.length && (i === a.length || lcs[i * width + j + 1] >= lcs[(i + 1) * width + j])) {
+                last().insert.push(b[j++]);
+            } else {
+                if (last().insert.length) ops.push({ copy: 0, skip: 0, insert: [] });
+                last().skip++;
+                i++;
+            }
+        }
+    }
+
+    if (suffix) ops.push({ copy: suffix, skip: 0, insert: [] });
+    return ops;
+}
+
+/**
+ * Encodes `target` as a delta against `base`
+ */
+export function createDelta(base: string, target: string): Uint8Array {
+    const out: number[] = [];
+    for (const op of diffLines(base.split('\n'), target.split('\n'))) {
+        writeVarint(out, op.copy);
+        writeVarint(out, op.skip);
+        writeVarint(out, op.insert.length);
+        for (const line of op.insert) {
+            const bytes = strToU8(line);
+            writeVarint(out, bytes.length);
+            for (let i = 0; i < bytes.length; i++) out.push(bytes[i]);
+        }
+    }
+    return new Uint8Array(out);
+}
+
+/**
+ * Rebuilds the target text from `base` and a delta made by `createDelta`.
+ * Throws on malformed input.
+ */
+export function applyDelta(base: string, delta: Uint8Array): string {
+    const lines = base.split('\n');
+    const result: string[] = [];
+    let line = 0;
+    let pos = 0;
+
+    const next = () => {
+        let value: number;
+        [value, pos] = readVarint(delta, pos);
+        return value;
+    };
+
+    while (pos < delta.length) {
+        const copy = next();
+        const skip = next();
+        const inserts = next();
+
+        if (line + copy + skip > lines.length) throw new Error('Delta does not match base');
+        result.push(...lines.slice(line, line + copy));
+        line += copy + skip;
+
+        for (let i = 0; i < inserts; i++) {
+            const length = next();
+            if (pos + length > delta.length) throw new Error('Truncated delta');
+            result.push(strFromU8(delta.subarray(pos, pos + length)));
+            pos += length;
+        }
+    }
+
+    if (line !== lines.length) throw new Error('Delta does not match base');
+    return result.join('\n');
+}
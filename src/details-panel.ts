@@ -0,0 +1,158 @@
+import type { SnippetMeta } from './compression';
+import { renderMarkdown } from './markdown';
+
+export interface DetailsPanelOptions {
+  /** Called after a field is edited */
+  onChange: (meta: SnippetMeta) => void;
+  /** Called after the panel appears or disappears, so the editor can re-layout */
+  onResize: () => void;
+}
+
+let options: DetailsPanelOptions;
+let meta: SnippetMeta = {};
+let editable = false;
+let formOpen = false;
+
+/**
+ * `yyyy-mm-dd` in local time, as date inputs use.
+ */
+function toDateValue(time: number): string {
+  const date = new Date(time);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * A date for display, e.g. "Oct 19, 2026".
+ */
+function formatDate(time: number): string {
+  return new Date(time).toLocaleDateString(undefined, { dateStyle: 'medium' });
+}
+
+/**
+ * A form field by id.
+ */
+function field(id: string): HTMLInputElement | HTMLTextAreaElement | null {
+  return document.getElementById(id) as HTMLInputElement | HTMLTextAreaElement | null;
+}
+
+/**
+ * Reads the form into `meta` and reports the change.
+ */
+function readForm(): void {
+  const expires = field('details-expires')?.value;
+  meta = {
+    ...meta,
+    title: field('details-title')?.value.trim() || undefined,
+    author: field('details-author')?.value.trim() || undefined,
+    description: field('details-description')?.value.trim() || undefined,
+    // A snippet expires at the end of the chosen day
+    expiresAt: expires ? new Date(`${expires}T23:59`).getTime() : undefined,
+  };
+  options.onChange({ ...meta });
+}
+
+/**
+ * Wires up the form fields and the expiry banner.
+ */
+export function initDetailsPanel(panelOptions: DetailsPanelOptions): void {
+  options = panelOptions;
+
+  for (const id of ['details-title', 'details-author', 'details-description', 'details-expires']) {
+    field(id)?.addEventListener('input', readForm);
+  }
+
+  document.getElementById('expiry-dismiss')?.addEventListener('click', () => {
+    const banner = document.getElementById('expiry-banner');
+    if (banner) banner.hidden = true;
+    options.onResize();
+  });
+}
+
+/**
+ * Shows a snippet's details: the form when editing (if open), else the
+ * read-only header when there is anything to show.
+ */
+export function setDetails(details: SnippetMeta, canEdit: boolean): void {
+  meta = { ...details };
+  editable = canEdit;
+
+  const values: Record<string, string> = {
+    'details-title': meta.title || '',
+    'details-author': meta.author || '',
+    'details-description': meta.description || '',
+    'details-expires': meta.expiresAt ? toDateValue(meta.expiresAt) : '',
+  };
+  for (const [id, value] of Object.entries(values)) {
+    const input = field(id);
+    if (input) input.value = value;
+  }
+
+  renderDetails();
+}
+
+/**
+ * Opens or closes the form (flips it when `open` is omitted).
+ */
+export function toggleDetailsForm(open = !formOpen): void {
+  formOpen = open;
+  renderDetails();
+  if (open) field('details-title')?.focus();
+}
+
+/**
+ * Syncs the form, the read-only header and the toggle button.
+ */
+function renderDetails(): void {
+  const form = document.getElementById('details-form');
+  const view = document.getElementById('details-view');
+  if (!form || !view) return;
+
+  const wasShown = !form.hidden || !view.hidden;
+  form.hidden = !editable || !formOpen;
+  view.hidden = editable || !(meta.title || meta.description || meta.author);
+
+  const toggle = document.getElementById('details-toggle');
+  if (toggle) {
+    toggle.hidden = !editable;
+    toggle.classList.toggle('active', formOpen);
+  }
+
+  if (!view.hidden) {
+    const title = document.getElementById('details-view-title');
+    const byline = document.getElementById('details-view-byline');
+    const description = document.getElementById('details-view-description');
+
+    if (title) {
+      title.textContent = meta.title || '';
+      title.hidden = !meta.title;
+    }
+    if (byline) {
+      const parts: string[] = [];
+      if (meta.author) parts.push(`by ${meta.author}`);
+      if (meta.createdAt) parts.push(`created ${formatDate(meta.createdAt)}`);
+      if (meta.expiresAt) parts.push(`${meta.expiresAt < Date.now() ? 'expired' : 'valid until'} ${formatDate(meta.expiresAt)}`);
+      byline.textContent = parts.join(' · ');
+      byline.hidden = parts.length === 0;
+    }
+    if (description) {
+      description.innerHTML = meta.description ? renderMarkdown(meta.description) : '';
+      description.hidden = !meta.description;
+    }
+  }
+
+  if (wasShown !== (!form.hidden || !view.hidden)) options.onResize();
+}
+
+/**
+ * Warns that the sender marked the snippet as outdated after a date.
+ */
+export function showExpiryBanner(expiresAt: number): void {
+  const banner = document.getElementById('expiry-banner');
+  const text = document.getElementById('expiry-text');
+  if (!banner || !text) return;
+
+  text.textContent = `The author marked this snippet as valid until ${formatDate(expiresAt)}. It may be out of date.`;
+  banner.hidden = false;
+  options.onResize();
+}
@@ -0,0 +1,607 @@
+import { strToU8 } from 'fflate';
+import { DICTIONARY, tokenTable } from './dictionary';
+
+/**
+ * A compression dictionary for one language family.
+ * The encoder tries both stages and keeps whichever gives the shorter link.
+ */
+export interface LanguageDictionary {
+    id: number;
+    languages: string[];
+    /** Token substitution table (see `applyDictionary`) */
+    tokens: [string, string][];
+    /** Deflate preset dictionary - deflate favours matches near the end, so put the most common text last */
+    preset: string;
+}
+
+/**
+ * Dictionaries by language family, identified in the hash by `id`.
+ *
+ * Shared links depend on these exact tables - never edit an entry in place
+ * or reuse an id. Add a new entry (or a new codec version) instead.
+ */
+const LANGUAGE_DICTIONARIES: LanguageDictionary[] = [
+    {
+        id: 0,
+        languages: [],
+        tokens: DICTIONARY,
+        preset: `
+if (x) {
+    return null;
+}
+for (let i = 0; i < n; i++) {
+    console.log(i);
+}
+function main() {
+    return true;
+}
+`,
+    },
+    {
+        id: 1,
+        languages: ['javascript', 'typescript', 'coffeescript'],
+        tokens: tokenTable([
+            'console.log(', 'addEventListener(', 'document.', 'undefined', 'interface ',
+            'function ', 'export ', 'import ', 'return ', 'string', 'number', 'boolean',
+            'const ', 'async ', 'await ', 'class ', 'this.', 'false', 'true', 'null',
+            ' === ', ' !== ', ' => ', '() {', ') {', ' = ', '    ', 'if (', 'for (',
+            "from '", 'let ',
+        ]),
+        preset: `
+import { useState, useEffect } from 'react';
+export interface Props {
+    id: string;
+    name?: string;
+    count: number;
+    enabled: boolean;
+}
+export default class Service {
+    private readonly items: Map<string, number> = new Map();
+    constructor(private options: Options) {}
+}
+document.getElementById('app')?.addEventListener('click', (event) => {
+    event.preventDefault();
+});
+export async function fetchData(url: string): Promise<Response> {
+    try {
+        const response = await fetch(url);
+        if (!response.ok) {
+            throw new Error(\`Request failed: \${response.status}\`);
+        }
+        return await response.json();
+    } catch (error) {
+        console.error(error);
+        return null;
+    }
+}
+const result = items.filter((item) => item !== undefined).map((item) => item.value);
+for (let i = 0; i < items.length; i++) {
+    console.log(i, items[i]);
+}
+if (value === null || value === undefined) {
+    return false;
+}
+export const handler = async () => {
+    const data = await load();
+    console.log(data);
+    return true;
+};
+`,
+    },
+    {
+        id: 2,
+        languages: ['python'],
+        tokens: tokenTable([
+            'self.assertEqual(', '__init__(self', 'isinstance(', 'print(f"', 'print(',
+            'return ', 'import ', 'lambda ', 'except ', 'finally:', 'raise ', 'yield ',
+            'class ', 'while ', 'False', 'None', 'True', 'self.', 'self', 'from ',
+            'def ', 'elif ', 'else:', 'with ', ' for ', ' in ', ' is ', ' not ',
+            ' and ', ' or ', '    ',
+        ]),
+        preset: `
+#!/usr/bin/env python3
+import os
+import sys
+import json
+from typing import Any, Dict, List, Optional
+from dataclasses import dataclass
+
+@dataclass
+class Config:
+    name: str
+    value: Optional[int] = None
+
+class Service:
+    def __init__(self, config: Config) -> None:
+        self.config = config
+        self.items: List[str] = []
+
+    def process(self, data: Dict[str, Any]) -> bool:
+        for key, value in data.items():
+            if value is None:
+                continue
+            elif isinstance(value, str):
+                self.items.append(value)
+            else:
+                raise ValueError(f"Invalid value for {key}: {value}")
+        return True
+
+def main() -> None:
+    try:
+        with open("data.json") as f:
+            data = json.load(f)
+    except FileNotFoundError as e:
+        print(f"Error: {e}")
+        return
+    result = [x for x in data if x is not None]
+    print(result)
+
+if __name__ == "__main__":
+    main()
+`,
+    },
+    {
+        id: 3,
+        languages: ['go'],
+        tokens: tokenTable([
+            'if err != nil {', 'return nil, err', 'fmt.Println(', 'fmt.Printf(', 'fmt.Errorf(',
+            'context.Context', 'interface{}', 'struct {', 'package ', 'import ', 'return ',
+            'string', 'error', 'func (', 'func ', 'range ', 'defer ', 'type ', 'var ',
+            'nil', ' := ', ') {', '\t\t', 'for ', 'int', 'go ', 'chan ', 'make(',
+            'byte', 'else', 'bool',
+        ]),
+        preset: `
+package main
+
+import (
+	"context"
+	"errors"
+	"fmt"
+	"net/http"
+	"os"
+	"strings"
+)
+
+type Server struct {
+	Name    string
+	Port    int
+	handler http.Handler
+}
+
+func NewServer(name string, port int) *Server {
+	return &Server{Name: name, Port: port}
+}
+
+func (s *Server) Start(ctx context.Context) error {
+	if s.handler == nil {
+		return errors.New("no handler")
+	}
+	return nil
+}
+
+func process(items []string) (map[string]int, error) {
+	result := make(map[string]int)
+	for i, item := range items {
+		if item == "" {
+			return nil, fmt.Errorf("empty item at %d", i)
+		}
+		result[strings.ToLower(item)]++
+	}
+	return result, nil
+}
+
+func main() {
+	data, err := os.ReadFile("input.txt")
+	if err != nil {
+		fmt.Println(err)
+		os.Exit(1)
+	}
+	defer fmt.Println("done")
+	fmt.Printf("%s\\n", data)
+}
+`,
+    },
+    {
+        id: 4,
+        languages: ['rust'],
+        tokens: tokenTable([
+            'println!("', '#[derive(', 'Option<', 'Result<', 'unwrap()', 'String',
+            'Vec<', 'impl ', 'pub fn ', 'fn ', 'pub ', 'let mut ', 'let ', 'match ',
+            'struct ', 'enum ', 'self', 'Self', 'use ', 'mut ', '&str', 'Some(',
+            'None', 'Ok(', 'Err(', ' => ', '::', ' -> ', 'return ', '    ', ') {',
+        ]),
+        preset: `
+use std::collections::HashMap;
+use std::fmt;
+use std::io::{self, Read};
+
+#[derive(Debug, Clone, PartialEq)]
+pub struct Config {
+    pub name: String,
+    pub values: Vec<i32>,
+}
+
+#[derive(Debug)]
+pub enum Error {
+    NotFound(String),
+    Invalid { line: usize },
+}
+
+impl fmt::Display for Error {
+    fn fmt(&self, f: &mut fmt::Formatter<'_>) -> fmt::Result {
+        match self {
+            Error::NotFound(name) => write!(f, "not found: {}", name),
+            Error::Invalid { line } => write!(f, "invalid at line {}", line),
+        }
+    }
+}
+
+impl Config {
+    pub fn new(name: &str) -> Self {
+        Self { name: name.to_string(), values: Vec::new() }
+    }
+
+    pub fn get(&self, index: usize) -> Option<&i32> {
+        self.values.get(index)
+    }
+}
+
+fn parse(input: &str) -> Result<HashMap<String, i32>, Error> {
+    let mut map = HashMap::new();
+    for (i, line) in input.lines().enumerate() {
+        let parts: Vec<&str> = line.split('=').collect();
+        if parts.len() != 2 {
+            return Err(Error::Invalid { line: i });
+        }
+        map.insert(parts[0].to_string(), parts[1].parse().unwrap_or(0));
+    }
+    Ok(map)
+}
+
+fn main() {
+    let mut input = String::new();
+    io::stdin().read_to_string(&mut input).unwrap();
+    match parse(&input) {
+        Ok(map) => println!("{:?}", map),
+        Err(e) => eprintln!("{}", e),
+    }
+}
+`,
+    },
+    {
+        id: 5,
+        languages: ['sql'],
+        tokens: tokenTable([
+            'CREATE TABLE ', 'PRIMARY KEY', 'FOREIGN KEY', 'REFERENCES ', 'VARCHAR(',
+            'INSERT INTO ', 'NOT NULL', 'DEFAULT ', 'INTEGER', 'SELECT ', 'UPDATE ',
+            'DELETE ', 'VALUES ', 'GROUP BY ', 'ORDER BY ', 'HAVING ', 'LEFT JOIN ',
+            'INNER JOIN ', 'WHERE ', 'FROM ', 'JOIN ', 'COUNT(', 'LIMIT ', 'NULL',
+            ' AND ', ' OR ', ' AS ', ' ON ', ' IN ', ' IS ', 'SET ',
+        ]),
+        preset: `
+CREATE TABLE users (
+    id INTEGER PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    email VARCHAR(255) UNIQUE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT INTO users (name, email) VALUES ('Alice', 'alice@example.com');
+
+UPDATE users SET name = 'Bob' WHERE id = 1;
+
+DELETE FROM orders WHERE status = 'cancelled';
+
+SELECT u.id, u.name, COUNT(o.id) AS order_count, SUM(o.total) AS total
+FROM users u
+LEFT JOIN orders o ON o.user_id = u.id
+WHERE u.created_at >= '2024-01-01' AND o.status IS NOT NULL
+GROUP BY u.id, u.name
+HAVING COUNT(o.id) > 0
+ORDER BY total DESC
+LIMIT 10;
+`,
+    },
+    {
+        id: 6,
+        languages: ['yaml'],
+        tokens: tokenTable([
+            'apiVersion: ', 'metadata:', 'spec:', 'name: ', 'image: ', 'ports:',
+            'containerPort: ', 'environment:', 'volumes:', 'labels:', 'kind: ',
+            'steps:', 'uses: ', 'with:', 'run: ', 'runs-on: ', 'jobs:', 'env:',
+            'value: ', 'true', 'false', '      - ', '    - ', '  - ', '        ',
+            '      ', '    ',
+        ]),
+        preset: `
+version: "3.8"
+services:
+  web:
+    image: nginx:latest
+    ports:
+      - "80:80"
+    environment:
+      - NODE_ENV=production
+    volumes:
+      - ./data:/data
+name: CI
+on:
+  push:
+    branches: [main]
+jobs:
+  build:
+    runs-on: ubuntu-latest
+    steps:
+      - uses: actions/checkout@v4
+      - name: Install
+        run: npm ci
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: app
+  labels:
+    app: app
+spec:
+  replicas: 1
+  template:
+    spec:
+      containers:
+        - name: app
+          image: app:latest
+          ports:
+            - containerPort: 8080
+`,
+    },
+    {
+        id: 7,
+        languages: ['json'],
+        tokens: tokenTable([
+            '"dependencies": {', '"devDependencies": {', '"scripts": {', '"version": "',
+            '"description": "', '"name": "', '"type": "', '"id": ', '": "', '", "',
+            '": {', '": [', '": ', '},', '],', 'true', 'false', 'null', '        ',
+            '    ', '  ',
+        ]),
+        preset: `
+{
+  "name": "example",
+  "version": "1.0.0",
+  "description": "",
+  "type": "module",
+  "scripts": {
+    "build": "tsc",
+    "test": "jest"
+  },
+  "dependencies": {},
+  "devDependencies": {},
+  "items": [
+    {
+      "id": 1,
+      "name": "first",
+      "enabled": true,
+      "value": null
+    },
+    {
+      "id": 2,
+      "name": "second",
+      "enabled": false,
+      "tags": ["a", "b"]
+    }
+  ]
+}
+`,
+    },
+    {
+        id: 8,
+        languages: ['shell', 'dockerfile', 'makefile'],
+        tokens: tokenTable([
+            '#!/usr/bin/env bash', '#!/bin/bash', 'set -euo pipefail', '/dev/null',
+            'echo "', 'export ', 'local ', 'then', 'else', 'elif ', 'done', 'esac',
+            'function ', 'if [ ', 'if [[ ', ' ]]; then', ' ]; then', 'for ', 'while ',
+            'case ', 'sudo ', 'apt-get ', 'RUN ', 'COPY ', 'FROM ', 'WORKDIR ',
+            '$(', '${', ' && ', ' || ', '    ',
+        ]),
+        preset: `
+#!/usr/bin/env bash
+set -euo pipefail
+
+SCRIPT_DIR="$(cd "$(dirname "\${BASH_SOURCE[0]}")" && pwd)"
+
+usage() {
+    echo "Usage: $0 [-v] <file>"
+    exit 1
+}
+
+if [ $# -lt 1 ]; then
+    usage
+fi
+
+for file in "$@"; do
+    if [[ -f "$file" ]]; then
+        echo "Processing $file"
+        grep -n "TODO" "$file" || true
+    else
+        echo "Missing: $file" >&2
+    fi
+done
+
+FROM node:20-alpine
+WORKDIR /app
+COPY package*.json ./
+RUN npm ci && npm cache clean --force
+COPY . .
+CMD ["npm", "start"]
+`,
+    },
+    {
+        id: 9,
+        languages: ['html', 'xml'],
+        tokens: tokenTable([
+            '<!DOCTYPE html>', '</script>', '<script', '</style>', '<style', '</button>',
+            '<button', '</span>', '<span', '</div>', '<div', '</li>', '<li>', '</ul>',
+            '<ul', '</p>', '<p>', '<a href="', '</a>', 'class="', 'id="', 'type="',
+            'name="', 'value="', 'src="', '<input ', '<img ', '"></', '">', '  ',
+        ]),
+        preset: `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+  <title>Document</title>
+  <link rel="stylesheet" href="style.css" />
+</head>
+<body>
+  <div class="container">
+    <header class="header">
+      <a href="/" class="logo">Home</a>
+    </header>
+    <ul class="list">
+      <li><a href="#">Item</a></li>
+    </ul>
+    <form action="/submit" method="post">
+      <input type="text" name="name" value="" />
+      <button type="submit" class="btn">Submit</button>
+    </form>
+    <div id="app"></div>
+  </div>
+  <script type="module" src="main.js"></script>
+</body>
+</html>
+`,
+    },
+    {
+        id: 10,
+        languages: ['css', 'scss', 'less'],
+        tokens: tokenTable([
+            'background-color: ', 'justify-content: ', 'align-items: ', 'border-radius: ',
+            'font-weight: ', 'font-family: ', 'font-size: ', 'background: ', 'position: ',
+            'transition: ', 'display: ', 'padding: ', 'margin: ', 'border: ', 'height: ',
+            'width: ', 'color: ', 'flex', 'absolute', 'relative', 'solid ', 'none',
+            'center', 'auto', '!important', 'px;', 'rem;', '#fff', ' {', '    ',
+        ]),
+        preset: `
+:root {
+  --primary-color: #569cd6;
+}
+
+* {
+  box-sizing: border-box;
+  margin: 0;
+  padding: 0;
+}
+
+.container {
+  display: flex;
+  flex-direction: column;
+  justify-content: center;
+  align-items: center;
+  width: 100%;
+  height: 100vh;
+  padding: 16px;
+  background-color: #1e1e1e;
+}
+
+.button:hover {
+  color: #ffffff;
+  border: 1px solid #333;
+  border-radius: 4px;
+  font-size: 14px;
+  font-weight: 500;
+  transition: all 0.2s ease;
+  cursor: pointer;
+}
+
+@media (max-width: 768px) {
+  .container {
+    position: relative;
+    display: none;
+  }
+}
+`,
+    },
+    {
+        id: 11,
+        languages: ['java', 'csharp', 'kotlin', 'scala', 'c', 'cpp', 'objective-c', 'swift', 'dart', 'groovy'],
+        tokens: tokenTable([
+            'System.out.println(', 'Console.WriteLine(', 'std::cout << ', 'printf("',
+            '#include <', 'public static ', 'public class ', 'private final ',
+            'protected ', 'private ', 'public ', 'static ', 'return ', 'String ',
+            'String', 'void ', 'int ', 'new ', 'this.', 'null', 'true', 'false',
+            'const ', 'class ', ' = ', ') {', 'if (', 'for (', '} else {', 'throw new ', '    ',
+        ]),
+        preset: `
+#include <stdio.h>
+#include <stdlib.h>
+#include <string.h>
+
+int main(int argc, char *argv[]) {
+    for (int i = 0; i < argc; i++) {
+        printf("%s\\n", argv[i]);
+    }
+    return 0;
+}
+
+import java.util.ArrayList;
+import java.util.List;
+
+public class Main {
+    private final List<String> items = new ArrayList<>();
+
+    public Main(String name) {
+        this.name = name;
+    }
+
+    @Override
+    public String toString() {
+        return "Main{" + "name=" + name + "}";
+    }
+
+    public static void main(String[] args) {
+        if (args.length == 0) {
+            throw new IllegalArgumentException("No arguments");
+        } else {
+            System.out.println("Hello, World!");
+        }
+    }
+}
+`,
+    },
+];
+
+const DICTIONARY_BY_LANGUAGE = new Map(
+    LANGUAGE_DICTIONARIES.flatMap(dict => dict.languages.map(lang => [lang, dict] as const))
+);
+
+const presetCache = new Map<number, Uint8Array>();
+
+/**
+ * Returns the dictionary for a language, falling back to the generic one
+ */
+export function dictionaryForLanguage(lang?: string): LanguageDictionary {
+    return (lang && DICTIONARY_BY_LANGUAGE.get(lang)) || LANGUAGE_DICTIONARIES[0];
+}
+
+/**
+ * Every language with a dictionary of its own
+ */
+export function dictionaryLanguages(): string[] {
+    return [...DICTIONARY_BY_LANGUAGE.keys()];
+}
+
+/**
+ * Looks up a dictionary by the id stored in the hash
+ */
+export function dictionaryById(id: number): LanguageDictionary | undefined {
+    return LANGUAGE_DICTIONARIES.find(dict => dict.id === id);
+}
+
+/**
+ * Returns the preset dictionary bytes, encoded once per dictionary
+ */
+export function presetBytes(dict: LanguageDictionary): Uint8Array {
+    let bytes = presetCache.get(dict.id);
+    if (!bytes) {
+        bytes = strToU8(dict.preset);
+        presetCache.set(dict.id, bytes);
+    }
+    return bytes;
+}
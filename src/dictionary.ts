@@ -0,0 +1,108 @@
+/**
+ * Global dictionary for common code patterns.
+ * Uses Unicode Private Use Area (U+E000-U+E01F) as tokens to avoid conflicts.
+ * Order matters: longer patterns should come first to avoid partial matches.
+ *
+ * Shared links depend on this exact table - never edit it in place.
+ * Add a new table (and a new codec version) instead.
+ */
+export const DICTIONARY: [string, string][] = [
+    // Common multi-char patterns (longer first!)
+    ['    ', '\uE000'],           // 4-space indent (very common)
+    ['console.log(', '\uE001'],
+    ['function ', '\uE002'],
+    ['return ', '\uE003'],
+    ['const ', '\uE004'],
+    ['export ', '\uE005'],
+    ['import ', '\uE006'],
+    ['async ', '\uE007'],
+    ['await ', '\uE008'],
+    ['class ', '\uE009'],
+    ['this.', '\uE00A'],
+    ['null', '\uE00B'],
+    ['true', '\uE00C'],
+    ['false', '\uE00D'],
+    ['undefined', '\uE00E'],
+    ['=> {', '\uE00F'],
+    ['() {', '\uE010'],
+    [') {', '\uE011'],
+    ['": "', '\uE012'],
+    ['", "', '\uE013'],
+    [' = ', '\uE014'],
+    [' === ', '\uE015'],
+    [' !== ', '\uE016'],
+    ['public ', '\uE017'],
+    ['private ', '\uE018'],
+    ['static ', '\uE019'],
+    ['throw ', '\uE01A'],
+    ['catch ', '\uE01B'],
+    ['try {', '\uE01C'],
+    ['if (', '\uE01D'],
+    ['for (', '\uE01E'],
+];
+
+/**
+ * Escape prefix for code points in the token range that already appear in the input.
+ * The last code point of the range is never used as a token.
+ */
+const ESCAPE = '\uE01F';
+const TOKEN_RANGE = /[\uE000-\uE01F]/g;
+const TOKEN_OR_ESCAPED = /\uE01F([\s\S])|[\uE000-\uE01E]/g;
+
+/**
+ * Builds a token table from a pattern list, assigning tokens in order from U+E000.
+ * Patterns must be plain ASCII, and a list holds at most 31 of them: tokens run
+ * U+E000-U+E01E, and U+E01F is the escape.
+ */
+export function tokenTable(patterns: string[]): [string, string][] {
+    return patterns.map((pattern, i) => [pattern, String.fromCharCode(0xE000 + i)]);
+}
+
+/**
+ * Apply dictionary compression - replace patterns with tokens.
+ * Lossless for any input: pre-existing token-range characters are escaped first,
+ * and since patterns are plain ASCII no substitution can split an escape pair.
+ */
+export function applyDictionary(text: string, table: [string, string][] = DICTIONARY): string {
+    let result = text.replace(TOKEN_RANGE, char => ESCAPE + char);
+    for (const [pattern, token] of table) {
+        result = result.split(pattern).join(token);
+    }
+    return result;
+}
+
+/**
+ * Reverse dictionary compression - a single left-to-right pass so an escaped
+ * character is never mistaken for a token.
+ */
+export function reverseDictionary(text: string, table: [string, string][] = DICTIONARY): string {
+    const patternByToken = new Map(table.map(([pattern, token]) => [token, pattern]));
+    return text.replace(TOKEN_OR_ESCAPED, (token, escaped?: string) =>
+        escaped ?? patternByToken.get(token) ?? token);
+}
+
+/**
+ * Replace patterns with tokens without escaping.
+ * Corrupts input that contains token-range characters; kept for v1 links.
+ */
+export function applyDictionaryUnescaped(text: string): string {
+    let result = text;
+    for (const [pattern, token] of DICTIONARY) {
+        result = result.split(pattern).join(token);
+    }
+    return result;
+}
+
+/**
+ * Replace tokens with patterns, the inverse of `applyDictionaryUnescaped`.
+ * Used by the legacy and v1 decoders.
+ */
+export function reverseDictionaryUnescaped(text: string): string {
+    let result = text;
+    // Reverse order to handle any edge cases
+    for (let i = DICTIONARY.length - 1; i >= 0; i--) {
+        const [pattern, token] = DICTIONARY[i];
+        result = result.split(token).join(pattern);
+    }
+    return result;
+}
@@ -0,0 +1,88 @@
+import * as monaco from 'monaco-editor';
+import { isThemeId } from './themes';
+
+/**
+ * Embed mode: a compact read-only view for iframes, switched on with `?embed`.
+ * Overrides ride along in the query string, e.g. `?embed&theme=dracula&fontSize=13`,
+ * so the snippet hash itself stays the same as the shareable link.
+ */
+export interface EmbedSettings {
+  theme?: string;
+  fontSize?: number;
+}
+
+const MIN_FONT_SIZE = 8;
+const MAX_FONT_SIZE = 32;
+
+// Message type the parent page listens for to resize the iframe
+const HEIGHT_MESSAGE = 'snippt:height';
+
+/**
+ * Reads embed settings from the query string, or null outside embed mode.
+ */
+export function readEmbedSettings(): EmbedSettings | null {
+  const params = new URLSearchParams(window.location.search);
+  if (!params.has('embed') || params.get('embed') === '0') return null;
+
+  const settings: EmbedSettings = {};
+  const theme = params.get('theme');
+  if (isThemeId(theme)) settings.theme = theme;
+
+  const fontSize = Number(params.get('fontSize'));
+  if (fontSize) settings.fontSize = Math.min(Math.max(fontSize, MIN_FONT_SIZE), MAX_FONT_SIZE);
+
+  return settings;
+}
+
+/**
+ * Adjusts editor options for the compact embed view.
+ */
+export function embedEditorOptions(
+  options: monaco.editor.IStandaloneEditorConstructionOptions,
+  settings: EmbedSettings
+): monaco.editor.IStandaloneEditorConstructionOptions {
+  return {
+    ...options,
+    fontSize: settings.fontSize || options.fontSize,
+    renderLineHighlight: 'none',
+    padding: { top: 8, bottom: 8 },
+    // The iframe grows to fit, so let the page handle vertical scrolling
+    scrollbar: { ...options.scrollbar, vertical: 'hidden', alwaysConsumeMouseWheel: false },
+  };
+}
+
+/**
+ * Switches the page into embed layout and points the "open" button at the full app.
+ */
+export function enterEmbedLayout(): void {
+  document.body.classList.add('embed');
+
+  const open = document.getElementById('embed-open') as HTMLAnchorElement | null;
+  if (open) {
+    open.href = `${window.location.origin}${window.location.pathname}${window.location.hash}`;
+    open.hidden = false;
+  }
+}
+
+/**
+ * Sizes the editor container to its content and reports the page height to
+ * the parent frame whenever it changes.
+ */
+export function fitToContent(editor: monaco.editor.ICodeEditor, container: HTMLElement, layout: () => void): void {
+  const app = document.getElementById('app') || document.body;
+  let lastHeight = 0;
+
+  const update = () => {
+    container.style.height = `${editor.getContentHeight()}px`;
+    layout();
+
+    const height = app.offsetHeight;
+    if (height !== lastHeight && window.parent !== window) {
+      lastHeight = height;
+      window.parent.postMessage({ type: HEIGHT_MESSAGE, height }, '*');
+    }
+  };
+
+  editor.onDidContentSizeChange(update);
+  update();
+}
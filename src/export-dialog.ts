@@ -0,0 +1,73 @@
+import type { ExportFormat, ExportOptions } from './export';
+
+export interface ExportChoice {
+  format: ExportFormat;
+  options: ExportOptions;
+}
+
+// Remembered between exports in the same session
+let lastOptions: ExportOptions = { padding: 32, chrome: true, lineNumbers: true, selectionOnly: false };
+
+/**
+ * Shows the export menu.
+ * Resolves with the chosen format and options, or null if the user cancels.
+ */
+export function askExport(hasSelection: boolean): Promise<ExportChoice | null> {
+  return new Promise(resolve => {
+    const overlay = document.createElement('div');
+    overlay.className = 'dialog-overlay';
+
+    const form = document.createElement('form');
+    form.className = 'dialog';
+    form.innerHTML = `
+      <h2 class="dialog-title">Export snippet</h2>
+      <label class="dialog-option">
+        Padding
+        <input class="dialog-input dialog-number" name="padding" type="number" min="0" max="128" step="4" />
+      </label>
+      <label class="dialog-option"><input name="chrome" type="checkbox" /> Window chrome</label>
+      <label class="dialog-option"><input name="lineNumbers" type="checkbox" /> Line numbers</label>
+      <label class="dialog-option"><input name="selectionOnly" type="checkbox" /> Selected lines only</label>
+      <div class="dialog-actions">
+        <button type="button" class="dialog-button dialog-cancel">Cancel</button>
+        <button type="submit" class="dialog-button primary" value="html">HTML</button>
+        <button type="submit" class="dialog-button primary" value="svg">SVG</button>
+        <button type="submit" class="dialog-button primary" value="png">PNG</button>
+      </div>
+    `;
+
+    const input = (name: string) => form.querySelector(`input[name="${name}"]`) as HTMLInputElement;
+    input('padding').value = String(lastOptions.padding);
+    input('chrome').checked = lastOptions.chrome;
+    input('lineNumbers').checked = lastOptions.lineNumbers;
+    input('selectionOnly').checked = hasSelection && lastOptions.selectionOnly;
+    input('selectionOnly').disabled = !hasSelection;
+
+    const close = (result: ExportChoice | null) => {
+      overlay.remove();
+      resolve(result);
+    };
+
+    form.addEventListener('submit', (event) => {
+      event.preventDefault();
+      const submitter = (event as SubmitEvent).submitter as HTMLButtonElement | null;
+
+      lastOptions = {
+        padding: Math.max(0, Number(input('padding').value) || 0),
+        chrome: input('chrome').checked,
+        lineNumbers: input('lineNumbers').checked,
+        selectionOnly: input('selectionOnly').checked,
+      };
+      close({ format: (submitter?.value || 'png') as ExportFormat, options: lastOptions });
+    });
+
+    form.querySelector('.dialog-cancel')!.addEventListener('click', () => close(null));
+    form.addEventListener('keydown', (event) => {
+      if (event.key === 'Escape') close(null);
+    });
+
+    overlay.appendChild(form);
+    document.body.appendChild(overlay);
+    form.querySelector<HTMLButtonElement>('button[value="png"]')!.focus();
+  });
+}
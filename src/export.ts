@@ -0,0 +1,332 @@
+import * as monaco from 'monaco-editor';
+
+export type ExportFormat = 'png' | 'svg' | 'html';
+
+export interface ExportOptions {
+  /** Space around the code, in pixels */
+  padding: number;
+  /** Draw a window title bar with the file name */
+  chrome: boolean;
+  lineNumbers: boolean;
+  /** Export only the lines touched by the selection */
+  selectionOnly: boolean;
+}
+
+interface StyledToken {
+  text: string;
+  color: string;
+  italic: boolean;
+  bold: boolean;
+}
+
+interface StyledLine {
+  number: number;
+  tokens: StyledToken[];
+}
+
+/** Colours and metrics read from the live editor, so exports match it exactly */
+interface RenderStyle {
+  background: string;
+  foreground: string;
+  lineNumber: string;
+  fontFamily: string;
+  fontSize: number;
+  lineHeight: number;
+  charWidth: number;
+}
+
+const CHROME_HEIGHT = 36;
+const CHROME_DOTS = ['#ff5f57', '#febc2e', '#28c840'];
+const GUTTER_GAP = 2; // Characters between line numbers and code
+const PNG_SCALE = 2;  // Render PNGs at 2x for crisp slides
+
+/**
+ * Resolves the colour and font style of Monaco token classes (`mtk5 mtki`)
+ * by probing them inside the editor, where the theme's token CSS applies.
+ */
+function tokenStyleResolver(host: HTMLElement): (className: string) => Omit<StyledToken, 'text'> {
+  const cache = new Map<string, Omit<StyledToken, 'text'>>();
+  return (className) => {
+    let style = cache.get(className);
+    if (!style) {
+      const probe = document.createElement('span');
+      probe.className = className;
+      host.appendChild(probe);
+      const computed = getComputedStyle(probe);
+      style = {
+        color: computed.color,
+        italic: computed.fontStyle === 'italic',
+        bold: Number(computed.fontWeight) >= 600 || computed.fontWeight === 'bold',
+      };
+      probe.remove();
+      cache.set(className, style);
+    }
+    return style;
+  };
+}
+
+/**
+ * Tokenizes the lines to export with `colorizeModelLine`, which uses the
+ * editor's own tokens and theme.
+ */
+function collectLines(editor: monaco.editor.ICodeEditor, selectionOnly: boolean): StyledLine[] {
+  const model = editor.getModel();
+  const host = editor.getDomNode();
+  if (!model || !host) return [];
+
+  let first = 1;
+  let last = model.getLineCount();
+  const selection = editor.getSelection();
+  if (selectionOnly && selection && !selection.isEmpty()) {
+    first = selection.startLineNumber;
+    // A selection ending at column 1 does not include that line
+    last = selection.endColumn === 1 && selection.endLineNumber > first
+      ? selection.endLineNumber - 1
+      : selection.endLineNumber;
+  }
+
+  const resolve = tokenStyleResolver(host);
+  const tabSize = model.getOptions().tabSize;
+  const lines: StyledLine[] = [];
+
+  for (let number = first; number <= last; number++) {
+    const html = monaco.editor.colorizeModelLine(model, number, tabSize);
+    const parsed = new DOMParser().parseFromString(html, 'text/html');
+    const tokens = [...parsed.body.querySelectorAll<HTMLElement>('span[class]')].map(span => ({
+      // Monaco renders spaces as non-breaking spaces
+      text: (span.textContent || '').replace(/\u00a0/g, ' '),
+      ...resolve(span.className),
+    }));
+    lines.push({ number, tokens });
+  }
+
+  return lines;
+}
+
+/**
+ * Reads colours and font metrics from the editor.
+ */
+function readRenderStyle(editor: monaco.editor.ICodeEditor): RenderStyle {
+  const host = editor.getDomNode()!;
+  const background = host.querySelector('.monaco-editor-background') || host;
+  const lineNumber = host.querySelector('.line-numbers') || host;
+  const fontInfo = editor.getOption(monaco.editor.EditorOption.fontInfo);
+
+  return {
+    background: getComputedStyle(background).backgroundColor,
+    foreground: getComputedStyle(host.querySelector('.view-lines') || host).color,
+    lineNumber: getComputedStyle(lineNumber).color,
+    fontFamily: fontInfo.fontFamily,
+    fontSize: fontInfo.fontSize,
+    lineHeight: fontInfo.lineHeight,
+    charWidth: fontInfo.typicalHalfwidthCharacterWidth,
+  };
+}
+
+/**
+ * Computes the image layout shared by the PNG and SVG renderers.
+ */
+function measure(lines: StyledLine[], style: RenderStyle, options: ExportOptions) {
+  const gutterChars = options.lineNumbers ? String(lines[lines.length - 1]?.number ?? 1).length + GUTTER_GAP : 0;
+  // A loop, not Math.max(...): spreading every line overflows the stack on huge snippets
+  const columns = lines.reduce(
+    (widest, line) => Math.max(widest, line.tokens.reduce((sum, token) => sum + token.text.length, 0)),
+    1
+  );
+  const top = options.padding + (options.chrome ? CHROME_HEIGHT : 0);
+
+  return {
+    gutterWidth: gutterChars * style.charWidth,
+    top,
+    width: Math.ceil(options.padding * 2 + (gutterChars + columns) * style.charWidth),
+    height: Math.ceil(top + options.padding + lines.length * style.lineHeight),
+  };
+}
+
+/**
+ * Escapes text for XML and HTML output.
+ */
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Renders the lines as an SVG document.
+ */
+function renderSvg(lines: StyledLine[], style: RenderStyle, options: ExportOptions, title: string): string {
+  const { gutterWidth, top, width, height } = measure(lines, style, options);
+  const parts: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<rect width="100%" height="100%" rx="${options.chrome ? 8 : 0}" fill="${style.background}"/>`,
+  ];
+
+  if (options.chrome) {
+    CHROME_DOTS.forEach((color, i) => {
+      parts.push(`<circle cx="${options.padding + 6 + i * 20}" cy="${CHROME_HEIGHT / 2 + 4}" r="6" fill="${color}"/>`);
+    });
+    parts.push(
+      `<text x="${width / 2}" y="${CHROME_HEIGHT / 2 + 8}" text-anchor="middle" font-family="${escapeXml(style.fontFamily)}" ` +
+      `font-size="${style.fontSize - 1}" fill="${style.lineNumber}">${escapeXml(title)}</text>`
+    );
+  }
+
+  parts.push(`<g font-family="${escapeXml(style.fontFamily)}" font-size="${style.fontSize}" xml:space="preserve">`);
+  lines.forEach((line, i) => {
+    // Baseline sits roughly where Monaco puts it within the line box
+    const y = top + i * style.lineHeight + (style.lineHeight + style.fontSize) / 2 - 2;
+
+    if (options.lineNumbers) {
+      parts.push(
+        `<text x="${options.padding + gutterWidth - GUTTER_GAP * style.charWidth}" y="${y}" text-anchor="end" ` +
+        `fill="${style.lineNumber}">${line.number}</text>`
+      );
+    }
+
+    const spans = line.tokens.map(token =>
+      `<tspan fill="${token.color}"${token.italic ? ' font-style="italic"' : ''}${token.bold ? ' font-weight="bold"' : ''}>` +
+      `${escapeXml(token.text)}</tspan>`
+    );
+    parts.push(`<text x="${options.padding + gutterWidth}" y="${y}">${spans.join('')}</text>`);
+  });
+  parts.push('</g>', '</svg>');
+
+  return parts.join('\n');
+}
+
+/**
+ * Renders the lines onto a canvas and returns it as a PNG blob.
+ */
+function renderPng(lines: StyledLine[], style: RenderStyle, options: ExportOptions, title: string): Promise<Blob> {
+  const { gutterWidth, top, width, height } = measure(lines, style, options);
+  const canvas = document.createElement('canvas');
+  canvas.width = width * PNG_SCALE;
+  canvas.height = height * PNG_SCALE;
+
+  const ctx = canvas.getContext('2d')!;
+  ctx.scale(PNG_SCALE, PNG_SCALE);
+  ctx.fillStyle = style.background;
+  ctx.beginPath();
+  ctx.roundRect(0, 0, width, height, options.chrome ? 8 : 0);
+  ctx.fill();
+  ctx.textBaseline = 'middle';
+
+  if (options.chrome) {
+    CHROME_DOTS.forEach((color, i) => {
+      ctx.fillStyle = color;
+      ctx.beginPath();
+      ctx.arc(options.padding + 6 + i * 20, CHROME_HEIGHT / 2 + 4, 6, 0, Math.PI * 2);
+      ctx.fill();
+    });
+    ctx.font = `${style.fontSize - 1}px ${style.fontFamily}`;
+    ctx.fillStyle = style.lineNumber;
+    ctx.textAlign = 'center';
+    ctx.fillText(title, width / 2, CHROME_HEIGHT / 2 + 4);
+  }
+
+  lines.forEach((line, i) => {
+    const y = top + i * style.lineHeight + style.lineHeight / 2;
+
+    if (options.lineNumbers) {
+      ctx.font = `${style.fontSize}px ${style.fontFamily}`;
+      ctx.fillStyle = style.lineNumber;
+      ctx.textAlign = 'right';
+      ctx.fillText(String(line.number), options.padding + gutterWidth - GUTTER_GAP * style.charWidth, y);
+    }
+
+    // Advance by character cells so columns line up like in the editor
+    ctx.textAlign = 'left';
+    let x = options.padding + gutterWidth;
+    for (const token of line.tokens) {
+      ctx.font = `${token.italic ? 'italic ' : ''}${token.bold ? 'bold ' : ''}${style.fontSize}px ${style.fontFamily}`;
+      ctx.fillStyle = token.color;
+      ctx.fillText(token.text, x, y);
+      x += token.text.length * style.charWidth;
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Canvas export failed')), 'image/png');
+  });
+}
+
+/**
+ * Renders the lines as a self-contained HTML page with inline styles.
+ */
+function renderHtml(lines: StyledLine[], style: RenderStyle, options: ExportOptions, title: string): string {
+  const gutterChars = String(lines[lines.length - 1]?.number ?? 1).length;
+  const rows = lines.map(line => {
+    const number = options.lineNumbers
+      ? `<span style="display:inline-block;width:${gutterChars}ch;margin-right:${GUTTER_GAP}ch;text-align:right;color:${style.lineNumber};user-select:none">${line.number}</span>`
+      : '';
+    const code = line.tokens.map(token => {
+      const font = `${token.italic ? 'font-style:italic;' : ''}${token.bold ? 'font-weight:bold;' : ''}`;
+      return `<span style="color:${token.color};${font}">${escapeXml(token.text)}</span>`;
+    }).join('');
+    return `${number}${code}`;
+  });
+
+  const chrome = options.chrome
+    ? `<div style="position:relative;height:${CHROME_HEIGHT}px">` +
+      CHROME_DOTS.map((color, i) =>
+        `<span style="position:absolute;top:0;left:${i * 20}px;width:12px;height:12px;border-radius:50%;background:${color}"></span>`
+      ).join('') +
+      `<div style="text-align:center;line-height:12px;font-family:${escapeXml(style.fontFamily)};font-size:${style.fontSize - 1}px;color:${style.lineNumber}">${escapeXml(title)}</div></div>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>${escapeXml(title)}</title>
+</head>
+<body style="margin:0;padding:24px;background:#ffffff">
+<div style="display:inline-block;padding:${options.padding}px;border-radius:${options.chrome ? 8 : 0}px;background:${style.background}">
+${chrome}<pre style="margin:0;font-family:${escapeXml(style.fontFamily)};font-size:${style.fontSize}px;line-height:${style.lineHeight}px;color:${style.foreground}">${rows.join('\n')}</pre>
+</div>
+</body>
+</html>
+`;
+}
+
+/**
+ * Starts a download of a blob.
+ */
+export function download(blob: Blob, fileName: string): void {
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(link.href);
+}
+
+/**
+ * Wraps code in a Markdown code fence, made longer than any backtick run in the code.
+ */
+export function markdownFence(code: string, lang: string): string {
+  const longest = (code.match(/`+/g) || []).reduce((most, run) => Math.max(most, run.length), 2);
+  const fence = '`'.repeat(longest + 1);
+  return `${fence}${lang === 'plaintext' ? '' : lang}\n${code}\n${fence}\n`;
+}
+
+/**
+ * Exports the editor contents in the given format and downloads the file.
+ * `title` labels the window chrome and names the file.
+ */
+export async function exportEditor(
+  editor: monaco.editor.ICodeEditor,
+  format: ExportFormat,
+  options: ExportOptions,
+  title: string
+): Promise<void> {
+  const lines = collectLines(editor, options.selectionOnly);
+  const style = readRenderStyle(editor);
+  const baseName = title.replace(/\.[^.]+$/, '') || 'snippet';
+
+  if (format === 'png') {
+    download(await renderPng(lines, style, options, title), `${baseName}.png`);
+  } else if (format === 'svg') {
+    download(new Blob([renderSvg(lines, style, options, title)], { type: 'image/svg+xml' }), `${baseName}.svg`);
+  } else {
+    download(new Blob([renderHtml(lines, style, options, title)], { type: 'text/html' }), `${baseName}.html`);
+  }
+}
@@ -0,0 +1,156 @@
+import type { SnippetFile } from './compression';
+
+/**
+ * Brings outside content in as snippet files: files dropped on the editor,
+ * files pasted from the clipboard, and text or files shared from other apps
+ * through the PWA share target (received by public/sw.js).
+ */
+export interface FileImportOptions {
+  /** Whether importing is allowed right now */
+  isEnabled: () => boolean;
+  /** Language for a file name (from its extension), or null if unknown */
+  languageForName: (name: string) => string | null;
+  /** Called with the files to open as a new snippet */
+  onImport: (files: SnippetFile[]) => void | Promise<void>;
+  notify: (message: string) => void;
+}
+
+interface SharedContent {
+  title?: string;
+  text?: string;
+  url?: string;
+  files?: { name: string; code: string }[];
+}
+
+// Anything bigger would not fit in a link anyway
+const MAX_FILE_SIZE = 1024 * 1024;
+
+// Where sw.js parks shared content until the page picks it up (keep in sync)
+const SHARE_CACHE = 'snippt-share';
+const SHARE_KEY = 'shared-content';
+
+let options: FileImportOptions;
+
+/**
+ * Builds a snippet file, with the language taken from the extension.
+ */
+function toSnippetFile(name: string, code: string): SnippetFile {
+  const file: SnippetFile = { name, code };
+  const lang = name ? options.languageForName(name) : null;
+  if (lang) {
+    file.lang = lang;
+    file.langLocked = true;
+  }
+  return file;
+}
+
+/**
+ * Drops files that are too big or look binary, and says how many were skipped
+ * (including `alreadySkipped` ones that were never read).
+ */
+function keepText(files: SnippetFile[], alreadySkipped = 0): SnippetFile[] {
+  const kept = files.filter(file => file.code.length <= MAX_FILE_SIZE && !file.code.includes('\0'));
+  const skipped = files.length - kept.length + alreadySkipped;
+  if (skipped > 0) {
+    options.notify(`Skipped ${skipped} file${skipped === 1 ? '' : 's'} that ${skipped === 1 ? 'is' : 'are'} not text or too large`);
+  }
+  return kept;
+}
+
+/**
+ * Reads browser files as snippet files.
+ */
+async function readFiles(list: FileList): Promise<SnippetFile[]> {
+  const files = Array.from(list).filter(file => file.size <= MAX_FILE_SIZE);
+  const read = await Promise.all(files.map(async file => toSnippetFile(file.name, await file.text())));
+  return keepText(read, list.length - files.length);
+}
+
+/**
+ * Imports the files of a drop or paste, if there are any.
+ * Returns whether the event carried files.
+ */
+function importTransfer(transfer: DataTransfer | null): boolean {
+  if (!transfer || transfer.files.length === 0) return false;
+
+  // Folders and files that went away since the drop cannot be read
+  readFiles(transfer.files)
+    .then(files => (files.length > 0 ? options.onImport(files) : undefined))
+    .catch(() => options.notify('Could not open the files: folders and unreadable files are not supported'));
+  return true;
+}
+
+/**
+ * Lets files be dropped on (or pasted into) the editor container.
+ * Listeners run in the capture phase so Monaco never inserts a file's name.
+ */
+export function initFileImport(container: HTMLElement, importOptions: FileImportOptions): void {
+  options = importOptions;
+
+  const hasFiles = (event: DragEvent) => !!event.dataTransfer?.types.includes('Files');
+
+  container.addEventListener('dragover', (event) => {
+    if (!hasFiles(event) || !options.isEnabled()) return;
+    event.preventDefault();
+    event.stopPropagation();
+    event.dataTransfer!.dropEffect = 'copy';
+    container.classList.add('drop-target');
+  }, true);
+
+  container.addEventListener('dragleave', (event) => {
+    if (!container.contains(event.relatedTarget as Node | null)) container.classList.remove('drop-target');
+  }, true);
+
+  container.addEventListener('drop', (event) => {
+    container.classList.remove('drop-target');
+    if (!hasFiles(event) || !options.isEnabled()) return;
+    event.preventDefault();
+    event.stopPropagation();
+    importTransfer(event.dataTransfer);
+  }, true);
+
+  // Copied text wins: some apps put an image of the selection next to it
+  container.addEventListener('paste', (event) => {
+    if (!options.isEnabled() || event.clipboardData?.types.includes('text/plain')) return;
+    if (importTransfer(event.clipboardData)) {
+      event.preventDefault();
+      event.stopPropagation();
+    }
+  }, true);
+}
+
+/**
+ * Content another app shared, as snippet files and the title it came with.
+ */
+export interface SharedSnippet {
+  files: SnippetFile[];
+  title?: string;
+}
+
+/**
+ * Takes the content another app shared with snippt, once: it is removed
+ * from the cache as it is read. No files if nothing is waiting.
+ */
+export async function takeShared(): Promise<SharedSnippet> {
+  let shared: SharedContent | undefined;
+  try {
+    const cache = await caches.open(SHARE_CACHE);
+    const key = new URL(SHARE_KEY, window.location.href).href;
+    shared = await (await cache.match(key))?.json();
+    await cache.delete(key);
+  } catch {
+    // Cache storage unavailable or the content was malformed
+  }
+  if (!shared) return { files: [] };
+
+  const files = (shared.files || []).map(file => toSnippetFile(file.name, file.code));
+
+  // Apps often repeat the link in the text; keep it once
+  const text = [shared.text, shared.url && !shared.text?.includes(shared.url) ? shared.url : '']
+    .filter(Boolean)
+    .join('\n');
+  if (text) files.unshift(toSnippetFile('', text));
+
+  const title = typeof shared.title === 'string' ? shared.title.trim() : '';
+  return { files: keepText(files), title: title || undefined };
+}
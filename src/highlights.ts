@@ -0,0 +1,97 @@
+import * as monaco from 'monaco-editor';
+import type { SnippetRange } from './compression';
+
+/**
+ * Highlights live as model decorations, so they move with edits and are
+ * read back from the decorations whenever the snippet is re-encoded.
+ */
+const decorationIds = new Map<monaco.editor.ITextModel, string[]>();
+
+const LINE_DECORATION: monaco.editor.IModelDecorationOptions = {
+  isWholeLine: true,
+  className: 'snippet-highlight',
+  linesDecorationsClassName: 'snippet-highlight-gutter',
+  overviewRuler: { color: '#d7ba7d', position: monaco.editor.OverviewRulerLane.Full },
+  stickiness: monaco.editor.TrackedRangeStickiness.NeverGrowsWhenTypingAtEdges,
+};
+
+const COLUMN_DECORATION: monaco.editor.IModelDecorationOptions = {
+  ...LINE_DECORATION,
+  isWholeLine: false,
+  linesDecorationsClassName: undefined,
+  inlineClassName: 'snippet-highlight',
+  className: undefined,
+};
+
+/**
+ * Replaces the highlights of every model with the given ranges.
+ */
+export function setHighlights(models: monaco.editor.ITextModel[], ranges: SnippetRange[]): void {
+  models.forEach((model, file) => {
+    const decorations = ranges
+      .filter(range => range.file === file)
+      .map(range => ({
+        range: range.startColumn
+          ? new monaco.Range(range.startLine, range.startColumn, range.endLine, range.endColumn || range.startColumn)
+          : new monaco.Range(range.startLine, 1, range.endLine, 1),
+        options: range.startColumn ? COLUMN_DECORATION : LINE_DECORATION,
+      }));
+    decorationIds.set(model, model.deltaDecorations(decorationIds.get(model) || [], decorations));
+  });
+}
+
+/**
+ * Reads the current highlight positions back from the models.
+ */
+export function getHighlights(models: monaco.editor.ITextModel[]): SnippetRange[] {
+  const ranges: SnippetRange[] = [];
+  models.forEach((model, file) => {
+    for (const id of decorationIds.get(model) || []) {
+      const range = model.getDecorationRange(id);
+      if (!range) continue;
+
+      const isWholeLine = model.getDecorationOptions(id)?.isWholeLine;
+      ranges.push(isWholeLine
+        ? { file, startLine: range.startLineNumber, endLine: range.endLineNumber }
+        : {
+          file,
+          startLine: range.startLineNumber,
+          endLine: range.endLineNumber,
+          startColumn: range.startColumn,
+          endColumn: range.endColumn,
+        });
+    }
+  });
+  return ranges;
+}
+
+/**
+ * Turns editor selections into ranges. Selections covering whole lines
+ * (or just a cursor) become line ranges; anything else keeps its columns.
+ */
+export function rangesFromSelections(
+  selections: monaco.Selection[],
+  model: monaco.editor.ITextModel,
+  file: number
+): SnippetRange[] {
+  return selections.map(selection => {
+    let endLine = selection.endLineNumber;
+    // A selection ending at the start of a line doesn't include that line
+    if (selection.endColumn === 1 && endLine > selection.startLineNumber) endLine--;
+
+    const coversWholeLines = selection.isEmpty() || (
+      selection.startColumn === 1 &&
+      (selection.endColumn === 1 || selection.endColumn === model.getLineMaxColumn(selection.endLineNumber))
+    );
+
+    return coversWholeLines
+      ? { file, startLine: selection.startLineNumber, endLine }
+      : {
+        file,
+        startLine: selection.startLineNumber,
+        endLine: selection.endLineNumber,
+        startColumn: selection.startColumn,
+        endColumn: selection.endColumn,
+      };
+  });
+}
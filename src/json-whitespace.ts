@@ -0,0 +1,63 @@
+/**
+ * Whitespace-only JSON rewriting. Unlike a JSON.parse/stringify round trip,
+ * numbers, key order and escapes stay exactly as written.
+ * Both functions expect valid JSON; check with JSON.parse first.
+ */
+
+/**
+ * Calls `visit` for every character outside strings, and copies strings whole.
+ */
+function walk(text: string, visit: (char: string, out: string[]) => void): string {
+    const out: string[] = [];
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (char !== '"') {
+            visit(char, out);
+            continue;
+        }
+
+        const start = i++;
+        while (i < text.length && text[i] !== '"') {
+            if (text[i] === '\\') i++;
+            i++;
+        }
+        out.push(text.slice(start, i + 1));
+    }
+    return out.join('');
+}
+
+/**
+ * Drops all whitespace between tokens.
+ */
+export function minifyJson(text: string): string {
+    return walk(text, (char, out) => {
+        if (!/\s/.test(char)) out.push(char);
+    });
+}
+
+/**
+ * Re-indents JSON, one value per line.
+ */
+export function indentJson(text: string, indent = '  '): string {
+    let depth = 0;
+    const newline = () => '\n' + indent.repeat(depth);
+
+    return walk(minifyJson(text), (char, out) => {
+        const previous = out[out.length - 1];
+        if (char === '{' || char === '[') {
+            depth++;
+            out.push(char, newline());
+        } else if (char === '}' || char === ']') {
+            depth--;
+            // Empty containers stay on one line
+            if (previous?.trim() === '' && previous.startsWith('\n')) out[out.length - 1] = char;
+            else out.push(newline(), char);
+        } else if (char === ',') {
+            out.push(char, newline());
+        } else if (char === ':') {
+            out.push(': ');
+        } else {
+            out.push(char);
+        }
+    });
+}
@@ -0,0 +1,187 @@
+import * as monaco from 'monaco-editor';
+
+/**
+ * snippt's own commands. Each is added to the editor with `addAction`, so it
+ * shows in Monaco's command palette (F1) and, if asked, the context menu.
+ * Keys are written like "Shift+Alt+C" (Ctrl means Cmd on macOS) and can be
+ * changed by the user; the same keys also work while the editor is not
+ * focused, e.g. from the header.
+ */
+export interface SnippetAction {
+  id: string;
+  label: string;
+  /** Default keys; unbound when omitted */
+  keys?: string;
+  /** Also list the action in the editor's context menu */
+  menu?: boolean;
+  /** Only available for these languages (of the open file); other uses of its keys keep working */
+  languages?: string[];
+  run: () => void | Promise<void>;
+}
+
+const KEYBINDINGS_KEY = 'snippt-keybindings';
+
+const IS_MAC = /Mac|iPhone|iPad/.test(navigator.platform);
+
+/**
+ * Modifiers of the default shortcuts, written before the key. Ctrl+Alt is
+ * AltGr on Windows and Linux, which types characters on many layouts
+ * (German, Polish, French...), so there it is Shift+Alt; on macOS ⌘⌥.
+ */
+export const COMMAND_KEYS = IS_MAC ? 'Ctrl+Alt' : 'Shift+Alt';
+
+// Key names that differ between `KeyboardEvent.code` and Monaco's KeyCode
+const CODE_TO_KEY: Record<string, string> = {
+  ArrowUp: 'UpArrow',
+  ArrowDown: 'DownArrow',
+  ArrowLeft: 'LeftArrow',
+  ArrowRight: 'RightArrow',
+};
+
+let actions: SnippetAction[] = [];
+// User choices by action id; '' unbinds
+let custom: Record<string, string> = readKeybindings();
+let target: monaco.editor.IStandaloneCodeEditor | null = null;
+let registrations: monaco.IDisposable[] = [];
+
+/**
+ * Reads the saved keybindings (none if unset or unreadable).
+ */
+function readKeybindings(): Record<string, string> {
+  try {
+    const saved: unknown = JSON.parse(localStorage.getItem(KEYBINDINGS_KEY) || '{}');
+    if (typeof saved !== 'object' || saved === null || Array.isArray(saved)) return {};
+    return Object.fromEntries(Object.entries(saved).filter(([, keys]) => typeof keys === 'string'));
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Turns "Ctrl+Alt+C" into a Monaco keybinding, or null if a key is unknown.
+ */
+function toKeybinding(keys: string): number | null {
+  const parts = keys.split('+');
+  const key = parts.pop() || '';
+  const name = /^[A-Z]$/.test(key) ? `Key${key}` : /^\d$/.test(key) ? `Digit${key}` : key;
+  const code = (monaco.KeyCode as unknown as Record<string, number | undefined>)[name];
+  if (code === undefined) return null;
+
+  let binding = code;
+  for (const modifier of parts) {
+    if (modifier === 'Ctrl') binding |= monaco.KeyMod.CtrlCmd;
+    else if (modifier === 'Shift') binding |= monaco.KeyMod.Shift;
+    else if (modifier === 'Alt') binding |= monaco.KeyMod.Alt;
+    else return null;
+  }
+  return binding;
+}
+
+/**
+ * The keys pressed, written like "Ctrl+Alt+C", or null for a lone modifier.
+ */
+export function keysFromEvent(event: KeyboardEvent): string | null {
+  if (['Control', 'Shift', 'Alt', 'Meta'].includes(event.key)) return null;
+
+  const code = event.code;
+  const key = code.startsWith('Key') ? code.slice(3) : code.startsWith('Digit') ? code.slice(5) : CODE_TO_KEY[code] ?? code;
+  const parts: string[] = [];
+  if (IS_MAC ? event.metaKey : event.ctrlKey) parts.push('Ctrl');
+  if (event.shiftKey) parts.push('Shift');
+  if (event.altKey) parts.push('Alt');
+  parts.push(key);
+  return parts.join('+');
+}
+
+/**
+ * Keys as shown to the user ("⌘⌥C" on macOS).
+ */
+export function displayKeys(keys: string): string {
+  if (!IS_MAC) return keys;
+  return keys.replace('Ctrl+', '⌘').replace('Shift+', '⇧').replace('Alt+', '⌥');
+}
+
+/**
+ * Whether an action applies to the editor's current file.
+ */
+function isAvailable(action: SnippetAction): boolean {
+  const lang = target?.getModel()?.getLanguageId();
+  return !action.languages || (!!lang && action.languages.includes(lang));
+}
+
+/**
+ * The snippt actions, in the order they were given.
+ */
+export function snippetActions(): SnippetAction[] {
+  return actions;
+}
+
+/**
+ * Current keys of an action ('' when unbound).
+ */
+export function keysFor(action: SnippetAction): string {
+  return custom[action.id] ?? action.keys ?? '';
+}
+
+/**
+ * Binds an action to new keys (null restores the default), unbinding
+ * whichever other action had them. Returns that action, if any.
+ */
+export function setKeys(action: SnippetAction, keys: string | null): SnippetAction | null {
+  const previous = keys ? actions.find(other => other !== action && keysFor(other) === keys) ?? null : null;
+  if (previous) custom[previous.id] = '';
+
+  if (keys === null) delete custom[action.id];
+  else custom[action.id] = keys;
+
+  try {
+    localStorage.setItem(KEYBINDINGS_KEY, JSON.stringify(custom));
+  } catch {
+    // Private mode: the keys last until reload
+  }
+  if (target) attachKeybindings(target);
+  return previous;
+}
+
+/**
+ * Adds the actions to an editor, replacing those on the previous one.
+ */
+export function attachKeybindings(editor: monaco.editor.IStandaloneCodeEditor): void {
+  registrations.forEach(registration => registration.dispose());
+  target = editor;
+  registrations = actions.map((action, index) => {
+    const binding = keysFor(action) ? toKeybinding(keysFor(action)) : null;
+    return editor.addAction({
+      id: action.id,
+      label: action.label,
+      keybindings: binding === null ? [] : [binding],
+      // Keys go to Monaco's own command (e.g. Ctrl+Enter's "insert line below") where this one does not apply
+      precondition: action.languages?.map(lang => `editorLangId == ${lang}`).join(' || '),
+      contextMenuGroupId: action.menu ? '0_snippt' : undefined, // Groups sort by id
+      contextMenuOrder: index,
+      run: () => action.run(),
+    });
+  });
+}
+
+/**
+ * Sets the actions and runs them from their keys anywhere on the page.
+ * Monaco handles keys pressed in the editor itself; text fields keep their
+ * plain keys.
+ */
+export function initKeybindings(list: SnippetAction[]): void {
+  actions = list;
+
+  document.addEventListener('keydown', (event) => {
+    const element = event.target as HTMLElement | null;
+    if (element?.closest('.monaco-editor, .dialog-overlay')) return;
+    if (element?.matches('input, textarea, select') && !event.ctrlKey && !event.metaKey && !event.altKey) return;
+
+    const keys = keysFromEvent(event);
+    const action = keys && actions.find(candidate => keysFor(candidate) === keys && isAvailable(candidate));
+    if (!action) return;
+
+    event.preventDefault();
+    action.run();
+  });
+}
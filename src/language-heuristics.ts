@@ -0,0 +1,97 @@
+import * as monaco from 'monaco-editor';
+
+/**
+ * Cheap, deterministic language hints that work before (or without) the ML model.
+ * Each rule looks at the start of the code only, so it costs nothing per edit.
+ */
+
+// How much of the snippet the rules look at
+const SCAN_LINES = 20;
+
+// Shebang interpreters -> Monaco language
+const INTERPRETERS: Record<string, string> = {
+  python: 'python',
+  node: 'javascript',
+  deno: 'typescript',
+  'ts-node': 'typescript',
+  bash: 'shell',
+  sh: 'shell',
+  zsh: 'shell',
+  dash: 'shell',
+  ksh: 'shell',
+  ruby: 'ruby',
+  perl: 'perl',
+  php: 'php',
+  pwsh: 'powershell',
+  lua: 'lua',
+  Rscript: 'r',
+};
+
+// Content rules, checked in order after shebangs and modelines
+const PATTERNS: [RegExp, string][] = [
+  [/^<\?php\b/m, 'php'],
+  [/^<\?xml\b/, 'xml'],
+  [/^<!DOCTYPE html|^<html\b/i, 'html'],
+  [/^package\s+main\s*$|^package\s+\w+\s*$[\s\S]*^func\s/m, 'go'],
+  [/^package\s+[\w.]+;\s*$/m, 'java'],
+  [/^package\s+[\w.]+\s*$[\s\S]*^(fun|val|class|object)\s/m, 'kotlin'],
+  [/^use\s+(std|crate|super)::|^fn\s+main\s*\(/m, 'rust'],
+  [/^#include\s*<(iostream|vector|string|memory|map)>|^using\s+namespace\s+std\b/m, 'cpp'],
+  [/^#include\s*[<"]/m, 'c'],
+  [/^FROM\s+\S+(\s+AS\s+\w+)?\s*$/im, 'dockerfile'],
+  [/^(import|export)\s[^;\n]*\bfrom\s+['"][^'"]+['"];?\s*$[\s\S]*(:\s*(string|number|boolean)\b|^(export\s+)?(interface|type)\s+\w+)/m, 'typescript'],
+  [/^(import|export)\s[^;\n]*\bfrom\s+['"][^'"]+['"];?\s*$|^const\s+\w+\s*=\s*require\(/m, 'javascript'],
+  [/^from\s+[\w.]+\s+import\s|^import\s+[\w.]+(\s+as\s+\w+)?\s*$/m, 'python'],
+];
+
+/**
+ * Finds a Monaco language by id, alias or file extension (`py`, `Python`, `.py`).
+ */
+export function resolveLanguage(name: string): string | null {
+  const key = name.toLowerCase();
+  const match = monaco.languages.getLanguages().find(lang =>
+    lang.id === key ||
+    lang.aliases?.some(alias => alias.toLowerCase() === key) ||
+    lang.extensions?.includes(`.${key}`)
+  );
+  return match?.id ?? null;
+}
+
+/**
+ * Language from a shebang line (`#!/usr/bin/env python3`).
+ */
+function fromShebang(firstLine: string): string | null {
+  if (!firstLine.startsWith('#!')) return null;
+
+  const words = firstLine.slice(2).trim().split(/\s+/).map(word => word.slice(word.lastIndexOf('/') + 1));
+  // `/usr/bin/env python3` names the interpreter in a later word (after any flags)
+  const program = words[0] === 'env' ? words.slice(1).find(word => !word.startsWith('-')) : words[0];
+  return INTERPRETERS[(program || '').replace(/[\d.]+$/, '')] ?? null;
+}
+
+/**
+ * Language from a vim or emacs modeline (`vim: set ft=sql:`, `-*- mode: yaml -*-`).
+ */
+function fromModeline(lines: string[]): string | null {
+  for (const line of lines) {
+    const match = line.match(/\bvim?:.*\b(?:ft|filetype|syntax)=([\w+-]+)/) || line.match(/-\*-.*?\bmode:\s*([\w+-]+)/i);
+    if (match) return resolveLanguage(match[1]);
+  }
+  return null;
+}
+
+/**
+ * Best heuristic guess for a snippet's language, or null if no rule fires.
+ */
+export function guessLanguageHeuristically(code: string): string | null {
+  const lines = code.trimStart().split('\n');
+  const head = lines.slice(0, SCAN_LINES);
+  // Modelines may also sit at the end of a file
+  const tail = lines.slice(-5);
+
+  const hint = fromShebang(head[0] || '') ?? fromModeline([...head, ...tail]);
+  if (hint) return hint;
+
+  const text = head.join('\n');
+  return PATTERNS.find(([pattern]) => pattern.test(text))?.[1] ?? null;
+}
@@ -0,0 +1,91 @@
+/**
+ * Language ids from the ML model (VS Code ids, which double as file
+ * extensions) mapped to Monaco language ids. Kept free of Monaco so the CLI
+ * can use it too.
+ */
+export const VSCODE_TO_MONACO_MAP: Record<string, string> = {
+  'js': 'javascript',
+  'ts': 'typescript',
+  'py': 'python',
+  'md': 'markdown',
+  'cs': 'csharp',
+  'cpp': 'cpp',
+  'rb': 'ruby',
+  'rs': 'rust',
+  'jl': 'julia',
+  'hs': 'haskell',
+  'kt': 'kotlin',
+  'ex': 'elixir',
+  'erl': 'erlang',
+  'sh': 'shell',
+  'ml': 'objective-c', // Often used for OCaml/OC-ML
+  'mm': 'objective-c',
+  'ps1': 'powershell',
+  'f90': 'fortran',
+  'cbl': 'cobol',
+  'pm': 'perl',
+  'tex': 'latex',
+  // Direct matches (IDs that are the same in both)
+  'scala': 'scala',
+  'pas': 'pascal',
+  'ini': 'ini',
+  'sql': 'sql',
+  'asm': 'asm',
+  'matlab': 'matlab',
+  'swift': 'swift',
+  'cmake': 'cmake',
+  'vba': 'vb',
+  'html': 'html',
+  'clj': 'clojure',
+  'dart': 'dart',
+  'xml': 'xml',
+  'csv': 'csv',
+  'lua': 'lua',
+  'prolog': 'prolog',
+  'coffee': 'coffeescript',
+  'groovy': 'groovy',
+  'json': 'json',
+  'java': 'java',
+  'lisp': 'lisp',
+  'c': 'c',
+  'makefile': 'makefile',
+  'v': 'verilog',
+  'r': 'r',
+  'php': 'php',
+  'yaml': 'yaml',
+  'css': 'css',
+  'bat': 'bat',
+  'toml': 'toml',
+  'go': 'go',
+  'dockerfile': 'dockerfile'
+};
+
+// Usual extensions where the first matching key above is not the usual one
+const EXTENSION_OVERRIDES: Record<string, string> = {
+  'objective-c': 'm',
+  'perl': 'pl',
+  'vb': 'vb',
+  'matlab': 'm',
+  'prolog': 'pl',
+  'plaintext': 'txt',
+};
+
+// Languages whose files go by a fixed name
+const FIXED_NAMES: Record<string, string> = {
+  'makefile': 'Makefile',
+  'dockerfile': 'Dockerfile',
+};
+
+/**
+ * A file name for saving code: `name` as is if it has an extension,
+ * otherwise with the usual extension of `lang` added.
+ */
+export function fileNameForLanguage(name: string, lang: string): string {
+  if (/\.[^.]+$/.test(name)) return name;
+  if (FIXED_NAMES[lang]) return FIXED_NAMES[lang];
+
+  const extension = EXTENSION_OVERRIDES[lang] ??
+    Object.keys(VSCODE_TO_MONACO_MAP).find(key => VSCODE_TO_MONACO_MAP[key] === lang) ??
+    'txt';
+  return `${name}.${extension}`;
+}
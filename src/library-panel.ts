@@ -0,0 +1,204 @@
+import { deleteEntry, exportLibrary, importLibrary, listEntries, updateEntry } from './library';
+import type { LibraryEntry } from './library';
+
+export interface LibraryPanelOptions {
+  /** Id of the entry the editor is currently saving into, if any */
+  currentId: () => string | null;
+  /** Called when the user picks an entry to reopen */
+  onOpen: (entry: LibraryEntry) => void;
+  /** Called after an entry is deleted */
+  onDelete: (entry: LibraryEntry) => void;
+  /** Shows a short status message */
+  notify: (message: string) => void;
+}
+
+let options: LibraryPanelOptions;
+let query = '';
+
+/**
+ * Wires up the panel's static controls.
+ */
+export function initLibraryPanel(panelOptions: LibraryPanelOptions): void {
+  options = panelOptions;
+
+  document.getElementById('library-close')?.addEventListener('click', () => toggleLibraryPanel(false));
+
+  const search = document.getElementById('library-search') as HTMLInputElement | null;
+  search?.addEventListener('input', () => {
+    query = search.value.trim().toLowerCase();
+    renderLibraryPanel();
+  });
+
+  document.getElementById('library-export')?.addEventListener('click', downloadExport);
+
+  const fileInput = document.getElementById('library-import-file') as HTMLInputElement | null;
+  document.getElementById('library-import')?.addEventListener('click', () => fileInput?.click());
+  fileInput?.addEventListener('change', async () => {
+    const file = fileInput.files?.[0];
+    fileInput.value = '';
+    if (!file) return;
+
+    try {
+      const count = await importLibrary(await file.text());
+      options.notify(`Imported ${count} snippet${count === 1 ? '' : 's'}`);
+    } catch {
+      options.notify('That file is not a snippt library export');
+    }
+    renderLibraryPanel();
+  });
+
+  document.addEventListener('keydown', (event) => {
+    if (event.key === 'Escape' && isLibraryPanelOpen()) toggleLibraryPanel(false);
+  });
+}
+
+/**
+ * Whether the panel is showing.
+ */
+export function isLibraryPanelOpen(): boolean {
+  return !document.getElementById('library-panel')?.hidden;
+}
+
+/**
+ * Opens or closes the panel (flips it when `open` is omitted).
+ */
+export function toggleLibraryPanel(open = !isLibraryPanelOpen()): void {
+  const panel = document.getElementById('library-panel');
+  if (!panel) return;
+
+  panel.hidden = !open;
+  document.getElementById('library-toggle')?.classList.toggle('active', open);
+  if (open) {
+    renderLibraryPanel();
+    document.getElementById('library-search')?.focus();
+  }
+}
+
+/**
+ * Saves the library as a JSON file.
+ */
+async function downloadExport(): Promise<void> {
+  const blob = new Blob([await exportLibrary()], { type: 'application/json' });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = `snippt-library-${new Date().toISOString().slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(link.href);
+}
+
+/**
+ * Formats a timestamp relative to now ("5 min ago"), or as a date once it is old.
+ */
+function formatTime(timestamp: number): string {
+  const minutes = Math.round((Date.now() - timestamp) / 60_000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  if (minutes < 24 * 60) return `${Math.round(minutes / 60)} h ago`;
+  return new Date(timestamp).toLocaleDateString();
+}
+
+/**
+ * Swaps an entry title for an inline input.
+ */
+function startRename(entry: LibraryEntry, label: HTMLElement): void {
+  const input = document.createElement('input');
+  input.className = 'library-rename';
+  input.value = entry.title;
+
+  let done = false;
+  const finish = async (commit: boolean) => {
+    if (done) return;
+    done = true;
+    const title = input.value.trim();
+    if (commit && title && title !== entry.title) {
+      await updateEntry(entry.id, { title, renamed: true });
+    }
+    renderLibraryPanel();
+  };
+
+  input.addEventListener('keydown', (event) => {
+    event.stopPropagation(); // Keep Escape from closing the panel
+    if (event.key === 'Enter') finish(true);
+    if (event.key === 'Escape') finish(false);
+  });
+  input.addEventListener('blur', () => finish(true));
+
+  label.replaceWith(input);
+  input.focus();
+  input.select();
+}
+
+/**
+ * Builds the list item for one entry.
+ */
+function renderEntry(entry: LibraryEntry): HTMLElement {
+  const item = document.createElement('li');
+  item.className = `library-item${entry.id === options.currentId() ? ' active' : ''}`;
+
+  const title = document.createElement('span');
+  title.className = 'library-title';
+  title.textContent = entry.title;
+  title.title = 'Double-click to rename';
+  title.addEventListener('dblclick', (event) => {
+    event.stopPropagation();
+    startRename(entry, title);
+  });
+
+  const meta = document.createElement('span');
+  meta.className = 'library-meta';
+  meta.textContent = [entry.lang, formatTime(entry.updatedAt)].filter(Boolean).join(' • ');
+
+  const pin = document.createElement('button');
+  pin.className = `library-pin${entry.pinned ? ' active' : ''}`;
+  pin.textContent = '📌';
+  pin.title = entry.pinned ? 'Unpin' : 'Pin';
+  pin.addEventListener('click', async (event) => {
+    event.stopPropagation();
+    await updateEntry(entry.id, { pinned: !entry.pinned });
+    renderLibraryPanel();
+  });
+
+  const remove = document.createElement('button');
+  remove.className = 'library-delete';
+  remove.textContent = '×';
+  remove.title = 'Delete';
+  remove.addEventListener('click', async (event) => {
+    event.stopPropagation();
+    if (!confirm(`Delete "${entry.title}"?`)) return;
+    await deleteEntry(entry.id);
+    options.onDelete(entry);
+    renderLibraryPanel();
+  });
+
+  const text = document.createElement('div');
+  text.className = 'library-text';
+  text.append(title, meta);
+  item.append(text, pin, remove);
+  item.addEventListener('click', () => options.onOpen(entry));
+  return item;
+}
+
+/**
+ * Re-renders the entry list (no-op while the panel is closed).
+ */
+export async function renderLibraryPanel(): Promise<void> {
+  const list = document.getElementById('library-list');
+  if (!list || !isLibraryPanelOpen()) return;
+
+  const entries = (await listEntries()).filter(entry =>
+    !query || entry.title.toLowerCase().includes(query) || entry.lang?.toLowerCase().includes(query)
+  );
+
+  list.innerHTML = '';
+  if (entries.length === 0) {
+    const empty = document.createElement('li');
+    empty.className = 'library-empty';
+    empty.textContent = query ? 'No matching snippets' : 'Snippets you write or open are saved here';
+    list.appendChild(empty);
+    return;
+  }
+
+  for (const entry of entries) {
+    list.appendChild(renderEntry(entry));
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * Local snippet library, kept in IndexedDB.
+ * Entries store the encoded hash, so reopening a snippet is just navigating to it.
+ */
+const DB_NAME = 'snippt-library';
+const DB_VERSION = 1;
+const STORE = 'snippets';
+
+// Unpinned entries kept; older ones are dropped
+const MAX_UNPINNED = 500;
+
+// Export file marker and format version
+const EXPORT_FORMAT = 'snippt-library';
+const EXPORT_VERSION = 1;
+
+export interface LibraryEntry {
+    id: string;
+    title: string;
+    lang?: string;
+    /** Encoded snippet, without the leading `#` */
+    hash: string;
+    createdAt: number;
+    updatedAt: number;
+    pinned: boolean;
+    /** Set once the user renames the entry, so edits stop retitling it */
+    renamed?: boolean;
+    /** Hash of the snippet this one was forked from */
+    parent?: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens the library database, creating the store on first use
+ */
+function openDb(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+                store.createIndex('hash', 'hash');
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+}
+
+/**
+ * Runs one request against the store and resolves with its result
+ */
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const request = run(db.transaction(STORE, mode).objectStore(STORE));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Lists all entries, pinned first, then most recently updated
+ */
+export async function listEntries(): Promise<LibraryEntry[]> {
+    const entries = await withStore<LibraryEntry[]>('readonly', store => store.getAll());
+    return entries.sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Reads one entry by id
+ */
+export async function getEntry(id: string): Promise<LibraryEntry | undefined> {
+    return withStore<LibraryEntry | undefined>('readonly', store => store.get(id));
+}
+
+/**
+ * Finds the entry holding a given hash
+ */
+export async function findEntryByHash(hash: string): Promise<LibraryEntry | undefined> {
+    return withStore<LibraryEntry | undefined>('readonly', store => store.index('hash').get(hash));
+}
+
+/**
+ * Inserts or replaces an entry, then drops unpinned entries beyond `MAX_UNPINNED`
+ */
+export async function putEntry(entry: LibraryEntry): Promise<void> {
+    await withStore('readwrite', store => store.put(entry));
+
+    const unpinned = (await listEntries()).filter(item => !item.pinned);
+    for (const item of unpinned.slice(MAX_UNPINNED)) {
+        await deleteEntry(item.id);
+    }
+}
+
+/**
+ * Applies changes to a stored entry. Missing entries are ignored.
+ */
+export async function updateEntry(id: string, changes: Partial<Omit<LibraryEntry, 'id'>>): Promise<void> {
+    const entry = await getEntry(id);
+    if (entry) await withStore('readwrite', store => store.put({ ...entry, ...changes }));
+}
+
+/**
+ * Removes an entry
+ */
+export async function deleteEntry(id: string): Promise<void> {
+    await withStore('readwrite', store => store.delete(id));
+}
+
+/**
+ * Serializes the whole library as JSON
+ */
+export async function exportLibrary(): Promise<string> {
+    const entries = await listEntries();
+    return JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, entries }, null, 2);
+}
+
+/**
+ * Checks that an imported value looks like a library entry
+ */
+function isEntry(value: unknown): value is LibraryEntry {
+    const entry = value as LibraryEntry;
+    return !!entry &&
+        typeof entry.id === 'string' &&
+        typeof entry.title === 'string' &&
+        typeof entry.hash === 'string' &&
+        typeof entry.createdAt === 'number' &&
+        typeof entry.updatedAt === 'number';
+}
+
+/**
+ * Merges an exported library into this one. Entries with the same id keep
+ * whichever copy was updated last. Returns the number of entries written.
+ * Throws if the JSON is not a library export.
+ */
+export async function importLibrary(json: string): Promise<number> {
+    const data = JSON.parse(json);
+    if (data?.format !== EXPORT_FORMAT || !Array.isArray(data.entries)) {
+        throw new Error('Not a snippt library export');
+    }
+
+    let written = 0;
+    for (const entry of data.entries.filter(isEntry)) {
+        const existing = await getEntry(entry.id);
+        if (existing && existing.updatedAt >= entry.updatedAt) continue;
+
+        await withStore('readwrite', store => store.put({ ...entry, pinned: !!entry.pinned }));
+        written++;
+    }
+    return written;
+}
@@ -1,139 +1,176 @@
 import './style.css';
 import * as monaco from 'monaco-editor';
-import { GuessLang } from '@ray-d-song/guesslang-js';
-import { readUrlHash, updateUrlHash } from './compression';
-import type { SnippetData } from './compression';
-
-// Define custom VS Code Dark+ theme with enhanced colors
-monaco.editor.defineTheme('vscode-dark-plus', {
-  base: 'vs-dark',
-  inherit: true,
-  rules: [
-    // JavaScript/TypeScript specific tokens (Monaco uses language suffix)
-    { token: 'identifier.js', foreground: '9CDCFE' },
-    { token: 'identifier.ts', foreground: '9CDCFE' },
-    { token: 'type.identifier.js', foreground: '4EC9B0' },
-    { token: 'type.identifier.ts', foreground: '4EC9B0' },
-
-    // Keywords - purple/pink like VS Code
-    { token: 'keyword.js', foreground: 'C586C0' },
-    { token: 'keyword.ts', foreground: 'C586C0' },
-    { token: 'keyword', foreground: 'C586C0' },
-
-    // Strings - orange/salmon
-    { token: 'string.js', foreground: 'CE9178' },
-    { token: 'string.ts', foreground: 'CE9178' },
-    { token: 'string', foreground: 'CE9178' },
-
-    // Numbers - green
-    { token: 'number.js', foreground: 'B5CEA8' },
-    { token: 'number.ts', foreground: 'B5CEA8' },
-    { token: 'number', foreground: 'B5CEA8' },
-
-    // Comments - green
-    { token: 'comment.js', foreground: '6A9955' },
-    { token: 'comment.ts', foreground: '6A9955' },
-    { token: 'comment', foreground: '6A9955' },
-
-    // Delimiters/brackets
-    { token: 'delimiter.js', foreground: 'D4D4D4' },
-    { token: 'delimiter.ts', foreground: 'D4D4D4' },
-
-    // Python specific
-    { token: 'keyword.python', foreground: 'C586C0' },
-    { token: 'identifier.python', foreground: '9CDCFE' },
-    { token: 'string.python', foreground: 'CE9178' },
-    { token: 'number.python', foreground: 'B5CEA8' },
-    { token: 'comment.python', foreground: '6A9955' },
-
-    // Generic fallbacks
-    { token: 'type', foreground: '4EC9B0' },
-    { token: 'class', foreground: '4EC9B0' },
-  ],
-  colors: {
-    'editor.background': '#1E1E1E',
-    'editor.foreground': '#D4D4D4',
-    'editorLineNumber.foreground': '#858585',
-    'editorLineNumber.activeForeground': '#C6C6C6',
-    'editor.selectionBackground': '#264F78',
-    'editor.lineHighlightBackground': '#2A2D2E',
-    'editorCursor.foreground': '#AEAFAD',
-  }
-});
-
-const VSCODE_TO_MONACO_MAP: Record<string, string> = {
-  'js': 'javascript',
-  'ts': 'typescript',
-  'py': 'python',
-  'md': 'markdown',
-  'cs': 'csharp',
-  'cpp': 'cpp',
-  'rb': 'ruby',
-  'rs': 'rust',
-  'jl': 'julia',
-  'hs': 'haskell',
-  'kt': 'kotlin',
-  'ex': 'elixir',
-  'erl': 'erlang',
-  'sh': 'shell',
-  'ml': 'objective-c', // Often used for OCaml/OC-ML
-  'mm': 'objective-c',
-  'ps1': 'powershell',
-  'f90': 'fortran',
-  'cbl': 'cobol',
-  'pm': 'perl',
-  'tex': 'latex',
-  // Direct matches (IDs that are the same in both)
-  'scala': 'scala',
-  'pas': 'pascal',
-  'ini': 'ini',
-  'sql': 'sql',
-  'asm': 'asm',
-  'matlab': 'matlab',
-  'swift': 'swift',
-  'cmake': 'cmake',
-  'vba': 'vb',
-  'html': 'html',
-  'clj': 'clojure',
-  'dart': 'dart',
-  'xml': 'xml',
-  'csv': 'csv',
-  'lua': 'lua',
-  'prolog': 'prolog',
-  'coffee': 'coffeescript',
-  'groovy': 'groovy',
-  'json': 'json',
-  'java': 'java',
-  'lisp': 'lisp',
-  'c': 'c',
-  'makefile': 'makefile',
-  'v': 'verilog',
-  'r': 'r',
-  'php': 'php',
-  'yaml': 'yaml',
-  'css': 'css',
-  'bat': 'bat',
-  'toml': 'toml',
-  'go': 'go',
-  'dockerfile': 'dockerfile'
-};
+import EditorWorker from 'monaco-editor/esm/vs/editor/editor.worker?worker';
+import JsonWorker from 'monaco-editor/esm/vs/language/json/json.worker?worker';
+import TsWorker from 'monaco-editor/esm/vs/language/typescript/ts.worker?worker';
+import { PassphraseError, decode, decodeEncrypted, isEncrypted, urlStatus } from './compression';
+import type { SnippetData, SnippetFile, SnippetMeta, SnippetOutputLine, SnippetRange, UrlStatus } from './compression';
+import { askCollaboration } from './collab-dialog';
+import type { CollabChoice } from './collab-dialog';
+import { connectPeer } from './collab-peer';
+import { endCollabSession, isCollaborating, startCollabSession } from './collab-session';
+import type { Signaling } from './collab-signaling';
+import { closeConsole, initConsolePanel, setConsoleShared, showConsole } from './console-panel';
+import { initDetailsPanel, setDetails, showExpiryBanner, toggleDetailsForm } from './details-panel';
+import { embedEditorOptions, enterEmbedLayout, fitToContent, readEmbedSettings } from './embed';
+import type { EmbedSettings } from './embed';
+import { download, exportEditor, markdownFence } from './export';
+import { askExport } from './export-dialog';
+import { initFileImport, takeShared } from './file-import';
+import { getHighlights, rangesFromSelections, setHighlights } from './highlights';
+import { COMMAND_KEYS, attachKeybindings, initKeybindings } from './keybindings';
+import { findEntryByHash, getEntry, putEntry } from './library';
+import type { LibraryEntry } from './library';
+import { guessLanguageHeuristically } from './language-heuristics';
+import { initLibraryPanel, renderLibraryPanel, toggleLibraryPanel } from './library-panel';
+import { initMarkdownPreview, previewMode, setPreviewMode, setPreviewSource } from './markdown-preview';
+import {
+  applyTheme,
+  defineThemes,
+  isThemeId,
+  onSystemThemeChange,
+  savedTheme,
+  saveTheme,
+  systemTheme,
+  themeOptions,
+} from './themes';
+import { runSnippet } from './runner';
+import { CONVERTIBLE_LANGUAGES, convertData, isDataLanguage, registerDataLanguages } from './structured-data';
+import { registerServiceWorker } from './service-worker';
+import { VSCODE_TO_MONACO_MAP, fileNameForLanguage } from './language-map';
+import { showShortcutsDialog } from './shortcuts-dialog';
+import {
+  readEncryptedUrlHash,
+  readUrlHash,
+  setUrlHash,
+  updateUrlHash,
+  updateUrlHashEncrypted,
+  urlHashIsEncrypted,
+} from './url-hash';
+import { encodeSnippet, guessLanguages } from './worker-client';
+import { initTimeline, isPreviewing, recordSnapshot, resetTimeline, toggleTimeline } from './timeline';
+import type { Snapshot } from './timeline';
+import { askPassphrase } from './passphrase-dialog';
+import {
+  activeTabIndex,
+  activeTab,
+  endPreviewTabs,
+  initTabs,
+  previewTabs,
+  renderTabBar,
+  snippetFiles,
+  switchTab,
+  tabModels,
+  tabsToSnippet,
+} from './tabs';
+
+// Register the editor themes (see themes.ts)
+defineThemes();
+registerDataLanguages();
 
 // Available languages for manual selection (sorted)
 const availableLanguages = Array.from(new Set(Object.values(VSCODE_TO_MONACO_MAP))).sort();
 
-// Disable Monaco workers - run in main thread (fine for small snippets)
+// Monaco workers: TypeScript/JavaScript and JSON get their language services
 self.MonacoEnvironment = {
-  getWorker: () => {
-    throw new Error('Workers disabled');
+  getWorker: (_workerId, label) => {
+    if (label === 'typescript' || label === 'javascript') return new TsWorker();
+    if (label === 'json') return new JsonWorker();
+    return new EditorWorker();
   }
 };
 
+// Monaco options (minimal features), shared by the single and diff editors
+const EDITOR_OPTIONS: monaco.editor.IStandaloneEditorConstructionOptions = {
+  // Minimal features (no IntelliSense)
+  minimap: { enabled: false },
+  scrollBeyondLastLine: false,
+  fontSize: 14,
+  fontFamily: '"Fira Code", "JetBrains Mono", "Cascadia Code", monospace',
+  fontLigatures: true,
+  lineNumbers: 'on',
+  renderLineHighlight: 'line',
+
+  // Basic write assist
+  autoClosingBrackets: 'always',
+  autoClosingQuotes: 'always',
+  autoIndent: 'full',
+  formatOnPaste: false,
+  formatOnType: false,
+
+  // Disable complex features
+  quickSuggestions: false,
+  suggestOnTriggerCharacters: false,
+  acceptSuggestionOnEnter: 'off',
+  parameterHints: { enabled: false },
+  hover: { enabled: false },
+  codeLens: false,
+  folding: false,
+  links: false,
+
+  // Right-click menu, with the snippt actions at the top (see keybindings.ts)
+  contextmenu: true,
+
+  // Accessibility
+  accessibilitySupport: 'off',
+
+  // Padding
+  padding: { top: 16, bottom: 16 },
+
+  // Scrollbar styling
+  scrollbar: {
+    verticalScrollbarSize: 8,
+    horizontalScrollbarSize: 8,
+  },
+};
+
 let editor: monaco.editor.IStandaloneCodeEditor;
+// Diff mode: `editor` is the diff editor's modified side
+let diffEditor: monaco.editor.IStandaloneDiffEditor | null = null;
+let originalModel: monaco.editor.ITextModel | null = null;
+let diffSideBySide = true;
 let isReadOnly = false;
+// Opt-in language services (hover, folding, diagnostics) while editing
+const SMART_EDITING_KEY = 'snippt-smart-editing';
+let smartEditing = readSmartEditing();
+// Set when the page runs as an iframe embed
+let embedSettings: EmbedSettings | null = null;
+// Theme the sender suggested in the link (kept when re-encoding)
+let linkTheme: string | null = null;
+// Output of the last run, and whether it goes into the link
+let lastOutput: SnippetOutputLine[] | null = null;
+let shareOutput = false;
+// Title, description, author and expiry (see details-panel.ts)
+let snippetMeta: SnippetMeta = {};
+const DEFAULT_TITLE = document.title;
+let isRunning = false;
+// Library entry this session saves into; created on the first save
+let libraryEntryId: string | null = null;
+// Hash this snippet was forked from
+let forkParent: string | null = null;
+// Live state kept aside while an earlier version is previewed
+let previewLive: SnippetData | null = null;
+let liveViewState: monaco.editor.ICodeEditorViewState | null = null;
 let currentLanguage = 'plaintext';
+let preserveExactly = false;
+let minifyJson = false;
+let passphrase: string | null = null;
 let lastTapTime = 0;
 
-const guessLang = new GuessLang();
+// Auto-detection only switches language at or above this confidence
+const DETECTION_THRESHOLD = 0.5;
+// Candidates offered as quick picks next to the language selector
+const QUICK_PICK_COUNT = 3;
+
+interface LanguageCandidate {
+  lang: string;
+  confidence: number;
+}
+
+// The ML model loads on first use; until then only heuristics run
+let modelReady = false;
+let modelWarmup: Promise<void> | null = null;
+let languageCandidates: LanguageCandidate[] = [];
 
 /**
  * Safely converts VS Code ML IDs to Monaco IDs
@@ -157,14 +194,83 @@ function getMonacoLang(vsCodeId: string): string {
 }
 
 /**
- * Detect language using highlight.js auto-detection with improved heuristics.
+ * Language for a file name, from its extension (or the whole name for
+ * extension-less files like Dockerfile). Null if Monaco has no match.
+ */
+function languageForName(name: string): string | null {
+  const dot = name.lastIndexOf('.');
+  const key = (dot >= 0 ? name.slice(dot + 1) : name).toLowerCase();
+  const lang = VSCODE_TO_MONACO_MAP[key] ? getMonacoLang(key) : 'plaintext';
+  return lang === 'plaintext' ? null : lang;
+}
+
+/**
+ * Detects the language of some code, best candidate first.
+ * Heuristics (shebangs, modelines, `<?php`...) answer with full confidence.
+ * Otherwise the ML model is asked - unless it is still loading, in which case
+ * it is warmed up in the background and nothing is returned (so edits never
+ * wait on it) unless `waitForModel` is set. A model that fails to load
+ * (offline before it was cached) also returns nothing.
+ */
+async function detectLanguageFromContent(code: string, waitForModel = false): Promise<LanguageCandidate[]> {
+  const hint = guessLanguageHeuristically(code);
+  if (hint) return [{ lang: hint, confidence: 1 }];
+
+  if (!modelReady && !waitForModel) {
+    modelWarmup ??= guessLanguages(code).then(
+      () => { modelReady = true; },
+      () => { modelWarmup = null; } // Try again on a later edit
+    );
+    return [];
+  }
+
+  try {
+    const results = await guessLanguages(code);
+    modelReady = true;
+
+    // Several model ids can map to one Monaco language; keep the best of each
+    const candidates: LanguageCandidate[] = [];
+    for (const result of results) {
+      const lang = getMonacoLang(result.languageId);
+      if (lang !== 'plaintext' && !candidates.some(candidate => candidate.lang === lang)) {
+        candidates.push({ lang, confidence: result.confidence });
+      }
+    }
+    return candidates.slice(0, QUICK_PICK_COUNT);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * The best candidate if it is confident enough to switch to.
+ */
+function confidentLanguage(candidates: LanguageCandidate[]): string | null {
+  const best = candidates[0];
+  return best && best.confidence >= DETECTION_THRESHOLD ? best.lang : null;
+}
+
+/**
+ * Sets the active file's language by hand, which locks it against auto-detection.
  */
-async function detectLanguageFromContent(code: string): Promise<string> {
-  const result = await guessLang.runModel(code);
-  if (result && result.length > 0) {
-    return getMonacoLang(result[0].languageId);
+function pickLanguage(lang: string): void {
+  activeTab().langLocked = true;
+  if (lang !== currentLanguage) {
+    currentLanguage = lang;
+    applyLanguage(lang);
   }
-  return 'plaintext';
+  updateLanguageIndicator();
+  // Always update URL with new language (even in read-only mode)
+  saveToUrl();
+}
+
+/**
+ * Unlocks the active file's language and re-runs detection.
+ */
+function unlockLanguage(): void {
+  activeTab().langLocked = false;
+  updateLanguageIndicator();
+  handleCodeChange();
 }
 
 /**
@@ -202,15 +308,7 @@ function updateLanguageIndicator(): void {
 
     // Handle manual selection
     selector.addEventListener('change', () => {
-      const newLang = selector!.value;
-      if (newLang !== currentLanguage) {
-        currentLanguage = newLang;
-        if (editor) {
-          monaco.editor.setModelLanguage(editor.getModel()!, newLang);
-          // Always update URL with new language (even in read-only mode)
-          updateUrlHash(editor.getValue(), currentLanguage);
-        }
-      }
+      if (editor) pickLanguage(selector!.value);
     });
 
     container.replaceWith(selector);
@@ -223,6 +321,521 @@ function updateLanguageIndicator(): void {
   if (selector && selector.value !== langToSet) {
     selector.value = langToSet;
   }
+
+  updateRunButton();
+  updatePreview();
+  updateSmartEditing(); // Data languages always show their parse errors
+  updateDataTools();
+
+  const locked = !!editor && activeTab().langLocked;
+  const lock = document.getElementById('language-lock');
+  if (lock) {
+    lock.textContent = locked ? '🔒' : '🔓';
+    lock.title = locked ? 'Language picked by hand - click to auto-detect again' : 'Language is auto-detected - click to keep it';
+    lock.classList.toggle('active', locked);
+    lock.hidden = isReadOnly;
+  }
+
+  // Quick picks for the detector's top candidates
+  const picks = document.getElementById('language-picks');
+  if (picks) {
+    picks.innerHTML = '';
+    picks.hidden = isReadOnly || locked || languageCandidates.length === 0;
+    for (const candidate of languageCandidates) {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.className = `language-pick${candidate.lang === currentLanguage ? ' active' : ''}`;
+      button.textContent = candidate.lang;
+      button.title = `${Math.round(candidate.confidence * 100)}% confidence`;
+      button.addEventListener('click', () => pickLanguage(candidate.lang));
+      picks.appendChild(button);
+    }
+  }
+}
+
+/**
+ * Collects the editor state into snippet data for encoding.
+ * Monaco keeps the line-ending style it detected on load, so CRLF snippets
+ * still come back as CRLF when `preserveExactly` is on.
+ */
+function currentSnippet(): SnippetData {
+  return {
+    ...tabsToSnippet(),
+    preserve: preserveExactly,
+    minifyJson,
+    ranges: getHighlights(tabModels()),
+    original: originalModel?.getValue(),
+    theme: linkTheme ?? undefined,
+    output: shareOutput && lastOutput ? lastOutput : undefined,
+    ...snippetMeta,
+  };
+}
+
+// Languages the Run button can execute
+const RUNNABLE_LANGUAGES = ['javascript', 'typescript'];
+
+/**
+ * Shows the Run button for runnable languages.
+ */
+function updateRunButton(): void {
+  const button = document.getElementById('run-button') as HTMLButtonElement | null;
+  if (!button) return;
+
+  button.hidden = !RUNNABLE_LANGUAGES.includes(currentLanguage);
+  button.disabled = isRunning;
+  button.textContent = isRunning ? '⏳ Running' : '▶ Run';
+}
+
+/**
+ * Runs the active file in the sandbox and shows its console output.
+ */
+async function runActiveFile(): Promise<void> {
+  await runCode(editor.getValue(), currentLanguage);
+}
+
+/**
+ * Runs some code in the sandbox and shows its output in the console.
+ */
+async function runCode(code: string, lang: string): Promise<void> {
+  if (isRunning || !RUNNABLE_LANGUAGES.includes(lang)) return;
+
+  isRunning = true;
+  updateRunButton();
+  const result = await runSnippet(code, lang);
+  isRunning = false;
+  updateRunButton();
+
+  lastOutput = result.output;
+  const status = result.status === 'ok'
+    ? `✓ ${result.duration} ms`
+    : result.status === 'timeout' ? '⏱ Timed out' : '✕ Error';
+  showConsole(result.output, status, result.status);
+
+  if (shareOutput) saveToUrl();
+}
+
+/**
+ * Offers the rendered preview while the active file is Markdown or CSV (not in diffs or embeds).
+ */
+function updatePreview(): void {
+  if (embedSettings || !editor) return;
+  const previewable = currentLanguage === 'markdown' || currentLanguage === 'csv';
+  setPreviewSource(previewable && !diffEditor ? editor.getModel() : null);
+}
+
+/**
+ * Shows Format for data files and Convert for JSON, YAML and TOML, while editing.
+ */
+function updateDataTools(): void {
+  const editable = !isReadOnly && !isPreviewing() && !embedSettings;
+
+  const format = document.getElementById('format-button');
+  if (format) format.hidden = !editable || !isDataLanguage(currentLanguage);
+
+  const convert = document.getElementById('convert-selector') as HTMLSelectElement | null;
+  if (convert) {
+    // Both sides of a diff would have to change together
+    convert.hidden = !editable || !!diffEditor || !CONVERTIBLE_LANGUAGES.includes(currentLanguage);
+    convert.innerHTML = '';
+    const placeholder = document.createElement('option');
+    placeholder.value = '';
+    placeholder.textContent = 'Convert to…';
+    convert.appendChild(placeholder);
+    for (const lang of CONVERTIBLE_LANGUAGES.filter(lang => lang !== currentLanguage)) {
+      const option = document.createElement('option');
+      option.value = lang;
+      option.textContent = lang.toUpperCase();
+      convert.appendChild(option);
+    }
+  }
+
+  updateMinifyToggle();
+}
+
+/**
+ * Formats the active file with the language's formatter (Shift+Alt+F).
+ */
+function formatActiveFile(): void {
+  editor.getAction('editor.action.formatDocument')?.run();
+}
+
+/**
+ * Rewrites the active file as another data language, as one undoable edit.
+ */
+function convertActiveFile(to: string): void {
+  const model = editor.getModel();
+  if (!model) return;
+
+  let text: string;
+  try {
+    text = convertData(model.getValue(), currentLanguage, to);
+  } catch (error) {
+    showToast(error instanceof Error ? error.message : String(error));
+    updateDataTools();
+    return;
+  }
+
+  editor.pushUndoStop();
+  editor.executeEdits('snippt.convert', [{ range: model.getFullModelRange(), text }]);
+  editor.pushUndoStop();
+  pickLanguage(to);
+}
+
+/**
+ * Theme to show: an embed override, then the user's pick, then the link's
+ * suggestion, then the system preference.
+ */
+function resolveTheme(): string {
+  return embedSettings?.theme || savedTheme() || linkTheme || systemTheme();
+}
+
+/**
+ * Fills the theme picker and syncs the "theme in link" toggle.
+ */
+function updateThemeControls(): void {
+  const select = document.getElementById('theme-selector') as HTMLSelectElement | null;
+  if (select && select.options.length === 0) {
+    select.add(new Option('Auto theme', ''));
+    for (const theme of themeOptions()) {
+      select.add(new Option(theme.label, theme.id));
+    }
+  }
+  if (select) select.value = savedTheme() || '';
+
+  const toggle = document.getElementById('theme-suggest');
+  const checkbox = toggle?.querySelector('input') as HTMLInputElement | null;
+  if (toggle && checkbox) {
+    checkbox.checked = !!linkTheme;
+    toggle.classList.toggle('active', !!linkTheme);
+  }
+}
+
+/**
+ * Applies a theme picked in the header ('' follows the system again).
+ */
+function pickTheme(id: string): void {
+  saveTheme(id || null);
+  applyTheme(resolveTheme());
+  updateThemeControls();
+
+  // A suggestion in the link follows the sender's current theme
+  if (linkTheme && id && id !== linkTheme) {
+    linkTheme = id;
+    saveToUrl();
+  }
+}
+
+/**
+ * Adds or removes the theme suggestion in the link.
+ */
+function toggleThemeSuggestion(suggest: boolean): void {
+  linkTheme = suggest ? resolveTheme() : null;
+  updateThemeControls();
+  saveToUrl();
+}
+
+/**
+ * Encodes the editor state into the URL hash, encrypting it when a passphrase is set.
+ */
+async function saveToUrl(): Promise<UrlStatus> {
+  const snippet = currentSnippet();
+  const urlStatus = setUrlHash(await encodeSnippet(snippet, passphrase));
+  showUrlWarning(urlStatus);
+  if (!urlStatus.isError) {
+    saveToLibrary(snippet, window.location.hash.slice(1)).catch(() => { });
+  }
+  return urlStatus;
+}
+
+/**
+ * Title for a library entry: the file name, else the first non-blank line.
+ * Encrypted snippets get a generic title so no plaintext is stored.
+ */
+function snippetTitle(snippet: SnippetData): string {
+  if (passphrase) return '🔒 Encrypted snippet';
+  if (snippet.title) return snippet.title;
+  if (snippet.name) return snippet.name;
+  const line = snippet.code.split('\n').find(text => text.trim()) || 'Untitled';
+  return line.trim().slice(0, 80);
+}
+
+/**
+ * Records the snippet in the local library, updating this session's entry.
+ * Empty snippets are not saved.
+ */
+async function saveToLibrary(snippet: SnippetData, hash: string): Promise<void> {
+  if (embedSettings || (!snippet.files?.length && !snippet.code.trim())) return;
+
+  const id = libraryEntryId ??= crypto.randomUUID();
+  const existing = await getEntry(id);
+  const now = Date.now();
+
+  await putEntry({
+    id,
+    hash,
+    title: existing?.renamed ? existing.title : snippetTitle(snippet),
+    lang: passphrase ? undefined : snippet.lang,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    pinned: existing?.pinned ?? false,
+    renamed: existing?.renamed,
+    parent: forkParent ?? undefined,
+  });
+  renderLibraryPanel();
+}
+
+/**
+ * Reopens a library entry by loading its hash.
+ */
+function openLibraryEntry(entry: LibraryEntry): void {
+  if (entry.id === libraryEntryId) {
+    toggleLibraryPanel(false);
+    return;
+  }
+  if (isCollaborating()) {
+    showToast('End the live session first');
+    return;
+  }
+  window.location.hash = entry.hash;
+  window.location.reload();
+}
+
+/**
+ * Shows a short-lived confirmation message.
+ */
+function showToast(message: string): void {
+  document.getElementById('toast')?.remove();
+
+  const toast = document.createElement('div');
+  toast.id = 'toast';
+  toast.textContent = message;
+  document.body.appendChild(toast);
+  setTimeout(() => toast.remove(), 2000);
+}
+
+/**
+ * Offers a downloaded app update; accepting reloads the page onto it.
+ */
+function showUpdatePrompt(reload: () => void): void {
+  if (document.getElementById('update-prompt')) return;
+
+  const prompt = document.createElement('div');
+  prompt.id = 'update-prompt';
+
+  const text = document.createElement('span');
+  text.textContent = 'A new version of snippt is available';
+
+  const reloadButton = document.createElement('button');
+  reloadButton.type = 'button';
+  reloadButton.className = 'update-reload';
+  reloadButton.textContent = 'Reload';
+  reloadButton.addEventListener('click', () => {
+    reloadButton.disabled = true;
+    reload();
+  });
+
+  const dismiss = document.createElement('button');
+  dismiss.type = 'button';
+  dismiss.className = 'update-dismiss';
+  dismiss.title = 'Later';
+  dismiss.textContent = '✕';
+  dismiss.addEventListener('click', () => prompt.remove());
+
+  prompt.append(text, reloadButton, dismiss);
+  document.body.appendChild(prompt);
+}
+
+/**
+ * Asks for export options and downloads the active file as an image or HTML page.
+ */
+async function exportSnippet(): Promise<void> {
+  const selection = editor.getSelection();
+  const choice = await askExport(!!selection && !selection.isEmpty());
+  if (!choice) return;
+
+  try {
+    await exportEditor(editor, choice.format, choice.options, activeTab().name);
+  } catch {
+    showToast('Export failed');
+  }
+}
+
+/**
+ * Scrolls to a highlighted range, switching tabs if it is in another file.
+ */
+function revealRange(range: SnippetRange): void {
+  switchTab(range.file);
+  editor.revealLinesInCenter(range.startLine, range.endLine, monaco.editor.ScrollType.Immediate);
+}
+
+/**
+ * Highlights the current selection and copies a link pointing at it.
+ */
+async function copyLinkToSelection(): Promise<void> {
+  const model = editor.getModel();
+  const selections = editor.getSelections();
+  if (!model || !selections) return;
+
+  setHighlights(tabModels(), rangesFromSelections(selections, model, activeTabIndex()));
+  const urlStatus = await saveToUrl();
+  if (urlStatus.isError) return; // URL was not updated
+
+  await navigator.clipboard.writeText(window.location.href);
+  showToast('Link to selection copied');
+}
+
+/**
+ * Copies the link to the whole snippet.
+ */
+async function copyShareLink(): Promise<void> {
+  const urlStatus = await saveToUrl();
+  if (urlStatus.isError) return; // URL was not updated
+
+  await navigator.clipboard.writeText(window.location.href);
+  showToast('Link copied');
+}
+
+/**
+ * Copies the selection (or the whole file) as a Markdown code fence.
+ */
+async function copyAsMarkdown(): Promise<void> {
+  const model = editor.getModel();
+  const selection = editor.getSelection();
+  if (!model) return;
+
+  const code = selection && !selection.isEmpty() ? model.getValueInRange(selection) : model.getValue();
+  await navigator.clipboard.writeText(markdownFence(code, currentLanguage));
+  showToast('Copied as Markdown');
+}
+
+/**
+ * Saves the active file, named after its tab with the language's extension.
+ */
+function downloadActiveFile(): void {
+  const name = fileNameForLanguage(activeTab().name, currentLanguage);
+  download(new Blob([editor.getValue()], { type: 'text/plain' }), name);
+}
+
+/**
+ * Opens the language selector from the keyboard.
+ */
+function focusLanguageSelector(): void {
+  const selector = document.getElementById('language-selector') as HTMLSelectElement | null;
+  if (!selector || embedSettings) return;
+
+  selector.focus();
+  try {
+    // Not in every browser; focus alone lets the arrow keys pick
+    (selector as HTMLSelectElement & { showPicker?: () => void }).showPicker?.();
+  } catch {
+    // Needs a user gesture
+  }
+}
+
+/**
+ * Opens Monaco's command palette, where the snippt actions are listed.
+ */
+function openCommandPalette(): void {
+  editor.focus();
+  editor.trigger('snippt', 'editor.action.quickCommand', null);
+}
+
+/**
+ * Removes all highlights from the snippet and its link.
+ */
+function clearHighlights(): void {
+  setHighlights(tabModels(), []);
+  saveToUrl();
+}
+
+/**
+ * Syncs the encryption toggle with the current state.
+ */
+function updateEncryptToggle(): void {
+  const toggle = document.getElementById('encrypt-toggle');
+  if (!toggle) return;
+
+  toggle.textContent = passphrase ? '🔒 Encrypted' : '🔓 Encrypt';
+  toggle.title = passphrase
+    ? 'Encrypted with a passphrase - click to remove encryption'
+    : 'Encrypt this snippet with a passphrase';
+  toggle.classList.toggle('active', !!passphrase);
+}
+
+/**
+ * Turns passphrase encryption on (asking for a new passphrase) or off.
+ */
+async function toggleEncryption(): Promise<void> {
+  if (passphrase) {
+    passphrase = null;
+  } else {
+    passphrase = await askPassphrase({
+      title: 'Encrypt snippet',
+      message: 'Anyone opening the link will need this passphrase. It cannot be recovered if you forget it.',
+      confirmLabel: 'Encrypt',
+      repeat: true,
+    });
+    if (!passphrase) return;
+  }
+
+  updateEncryptToggle();
+  await saveToUrl();
+}
+
+/**
+ * Asks for the passphrase of an encrypted link until it decrypts.
+ * Returns null if the user gives up, which starts an empty snippet.
+ */
+async function unlockUrlHash(): Promise<SnippetData | null> {
+  let data: SnippetData | null = null;
+
+  const entered = await askPassphrase({
+    title: 'Encrypted snippet',
+    message: 'This snippet is protected. Enter the passphrase to open it.',
+    confirmLabel: 'Unlock',
+    cancelLabel: 'New snippet',
+    validate: async (value) => {
+      try {
+        data = await readEncryptedUrlHash(value);
+        return data ? null : 'This link is damaged and cannot be opened.';
+      } catch (error) {
+        return error instanceof PassphraseError
+          ? 'Wrong passphrase - try again.'
+          : 'Could not decrypt this link.';
+      }
+    },
+  });
+
+  if (entered) passphrase = entered;
+  return data;
+}
+
+/**
+ * Syncs the "preserve exactly" toggle with the current state.
+ */
+function updatePreserveToggle(): void {
+  const toggle = document.getElementById('preserve-toggle');
+  const checkbox = toggle?.querySelector('input') as HTMLInputElement | null;
+  if (!toggle || !checkbox) return;
+
+  checkbox.checked = preserveExactly;
+  toggle.classList.toggle('active', preserveExactly);
+  updateMinifyToggle();
+}
+
+/**
+ * Syncs the "minify JSON" toggle, offered while a JSON file is open (or it is on).
+ */
+function updateMinifyToggle(): void {
+  const toggle = document.getElementById('minify-toggle');
+  const checkbox = toggle?.querySelector('input') as HTMLInputElement | null;
+  if (!toggle || !checkbox) return;
+
+  toggle.hidden = !!embedSettings || (!minifyJson && currentLanguage !== 'json');
+  checkbox.checked = minifyJson;
+  // Exact mode keeps the whitespace as typed
+  checkbox.disabled = preserveExactly;
+  toggle.classList.toggle('active', minifyJson && !preserveExactly);
 }
 
 /**
@@ -232,12 +845,18 @@ function updateModeIndicator(): void {
   const indicator = document.getElementById('mode-indicator');
   const container = document.getElementById('editor-container');
   if (indicator) {
-    indicator.textContent = isReadOnly ? '👁 Read-only' : '✏️ Editing';
-    indicator.className = `indicator ${isReadOnly ? 'read-only' : 'editing'}`;
+    indicator.textContent = isPreviewing() ? '🕘 Preview' : isReadOnly ? '👁 Read-only' : '✏️ Editing';
+    indicator.className = `indicator header-button ${isReadOnly || isPreviewing() ? 'read-only' : 'editing'}`;
+    (indicator as HTMLButtonElement).disabled = isPreviewing();
+    indicator.title = isPreviewing() ? 'An earlier version - go back to the latest to edit'
+      : isReadOnly ? 'Click to edit' : 'Click to view read-only';
   }
   if (container) {
-    container.classList.toggle('read-only', isReadOnly);
+    container.classList.toggle('read-only', isReadOnly && !isPreviewing());
   }
+
+  const fork = document.getElementById('fork-button');
+  if (fork) fork.hidden = !isReadOnly || isPreviewing();
 }
 
 /**
@@ -245,8 +864,29 @@ function updateModeIndicator(): void {
  */
 function setReadOnly(readonly: boolean): void {
   isReadOnly = readonly;
-  editor.updateOptions({ readOnly: readonly });
+  // Editing needs the source in view
+  if (!readonly && previewMode() === 'preview') setPreviewMode('split');
+  if (diffEditor) {
+    diffEditor.updateOptions({ readOnly: readonly, originalEditable: !readonly });
+  } else {
+    editor.updateOptions({ readOnly: readonly });
+  }
   updateModeIndicator();
+  updateDiffControls();
+  updateSmartEditing();
+  updateDataTools();
+  updateDetails();
+  renderTabBar();
+  layoutEditor(); // Tab bar may have appeared or disappeared
+}
+
+/**
+ * Switches between editing and read-only (not while previewing or embedded).
+ */
+function toggleReadOnly(): void {
+  if (isPreviewing() || embedSettings) return;
+  setReadOnly(!isReadOnly);
+  if (!isReadOnly) editor.focus();
 }
 
 /**
@@ -254,7 +894,7 @@ function setReadOnly(readonly: boolean): void {
  */
 function handleTap(): void {
   const now = Date.now();
-  if (now - lastTapTime < 300 && isReadOnly) {
+  if (now - lastTapTime < 300 && isReadOnly && !isPreviewing() && !embedSettings) {
     setReadOnly(false);
     editor.focus();
   }
@@ -301,10 +941,10 @@ function updateUrlStatus(status: { length: number; isWarning: boolean; isError:
     container.title = `URL too long (${status.length} chars) - won't be saved`;
   } else if (status.isWarning) {
     container.classList.add('status-warning');
-    container.title = `URL getting long (${status.length} chars) - may not work in some browsers`;
+    container.title = `URL getting long (${status.length} chars) - may not work in some browsers. Click to copy the link`;
   } else {
     container.classList.add('status-ok');
-    container.title = `URL length: ${status.length} chars`;
+    container.title = `URL length: ${status.length} chars - click to copy the link`;
   }
 }
 
@@ -344,25 +984,520 @@ function showUrlWarning(status: { length: number; isWarning: boolean; isError: b
   }
 }
 
+/**
+ * Says the link could not be read, in place of the URL warning; the next
+ * save clears it.
+ */
+function showLinkError(): void {
+  document.getElementById('url-warning')?.remove();
+  const warning = document.createElement('div');
+  warning.id = 'url-warning';
+  warning.className = 'error';
+  warning.innerHTML = `
+    <span style="font-size: 18px;">⛔</span>
+    <span><strong>This link could not be opened.</strong> It may have been cut short or changed when it was shared.</span>
+  `;
+  document.body.appendChild(warning);
+}
+
+/**
+ * Sets the language of the active model (and of the diff original).
+ */
+function applyLanguage(lang: string): void {
+  monaco.editor.setModelLanguage(editor.getModel()!, lang);
+  if (originalModel) monaco.editor.setModelLanguage(originalModel, lang);
+}
+
 /**
  * Handles code changes - updates URL and language.
  */
 const handleCodeChange = debounce(async () => {
-  if (!isReadOnly && editor) {
-    const code = editor.getValue();
-    const detected = await detectLanguageFromContent(code);
-
-    if (detected !== currentLanguage) {
-      currentLanguage = detected;
-      monaco.editor.setModelLanguage(editor.getModel()!, detected);
+  // Live sessions save once they end
+  if (!isReadOnly && !isPreviewing() && !isCollaborating() && editor) {
+    if (!activeTab().langLocked) {
+      languageCandidates = await detectLanguageFromContent(editor.getValue());
+      const detected = confidentLanguage(languageCandidates);
+
+      if (detected && detected !== currentLanguage) {
+        currentLanguage = detected;
+        applyLanguage(detected);
+      }
       updateLanguageIndicator();
     }
 
-    const urlStatus = updateUrlHash(code, currentLanguage);
-    showUrlWarning(urlStatus);
+    await saveVersion();
   }
 }, 1500);
 
+/**
+ * The details fields of a decoded snippet.
+ */
+function metaOf(data: SnippetData): SnippetMeta {
+  const { title, description, author, createdAt, expiresAt } = data;
+  return { title, description, author, createdAt, expiresAt };
+}
+
+/**
+ * Puts the snippet's title in the browser tab.
+ */
+function updateDocumentTitle(): void {
+  document.title = snippetMeta.title ? `${snippetMeta.title} - snippt.link` : DEFAULT_TITLE;
+}
+
+/**
+ * Shows the details as a form while editing, or above the code for readers.
+ */
+function updateDetails(): void {
+  setDetails(snippetMeta, !isReadOnly && !isPreviewing() && !embedSettings);
+  updateDocumentTitle();
+}
+
+/**
+ * Takes edits from the details form. The creation time is set when the
+ * snippet first gets details, so links without any stay as short as before.
+ */
+function changeDetails(meta: SnippetMeta): void {
+  const hasDetails = !!(meta.title || meta.description || meta.author || meta.expiresAt);
+  snippetMeta = { ...meta, createdAt: hasDetails ? meta.createdAt ?? Date.now() : undefined };
+  updateDocumentTitle();
+  saveDetails();
+}
+
+const saveDetails = debounce(saveVersion, 1000);
+
+/**
+ * Saves to the URL and records the result on the version timeline.
+ */
+async function saveVersion(): Promise<void> {
+  const status = await saveToUrl();
+  if (!status.isError) recordSnapshot(window.location.hash.slice(1));
+}
+
+/**
+ * Replaces the open files with another snippet's.
+ */
+function loadSnippet(data: SnippetData): void {
+  const oldModels = tabModels();
+  const firstTab = initTabs(snippetFiles(data));
+  editor.setModel(firstTab.model);
+  oldModels.forEach(model => model.dispose());
+
+  setHighlights(tabModels(), data.ranges || []);
+  applySnippetSettings(data);
+}
+
+/**
+ * Takes the per-snippet settings (exact mode, details...) from a snippet
+ * whose files are showing.
+ */
+function applySnippetSettings(data: SnippetData): void {
+  preserveExactly = !!data.preserve;
+  minifyJson = !!data.minifyJson;
+  snippetMeta = metaOf(data);
+  currentLanguage = editor.getModel()?.getLanguageId() ?? 'plaintext';
+  updatePreserveToggle();
+  updateLanguageIndicator();
+  updateDetails();
+}
+
+/**
+ * Shows an earlier version read-only, or returns to the live one.
+ */
+async function previewVersion(snapshot: Snapshot | null): Promise<void> {
+  if (snapshot && isCollaborating()) {
+    showToast('End the live session first');
+    return;
+  }
+  if (!snapshot) {
+    const live = endPreviewTabs();
+    if (live && previewLive) {
+      editor.setModel(live.model);
+      if (liveViewState) editor.restoreViewState(liveViewState);
+      applySnippetSettings(previewLive);
+    }
+    previewLive = null;
+    liveViewState = null;
+  } else {
+    let data: SnippetData | null = null;
+    try {
+      data = isEncrypted(snapshot.hash)
+        ? passphrase ? await decodeEncrypted(snapshot.hash, passphrase) : null
+        : decode(snapshot.hash);
+    } catch {
+      // Encrypted under a passphrase that has since changed
+    }
+    if (!data) {
+      showToast('This version cannot be opened');
+      return;
+    }
+
+    if (!previewLive) {
+      previewLive = currentSnippet();
+      liveViewState = editor.saveViewState();
+    }
+    // Separate models, so the live ones keep their undo history
+    editor.setModel(previewTabs(snippetFiles(data)).model);
+    setHighlights(tabModels(), data.ranges || []);
+    applySnippetSettings(data);
+  }
+
+  editor.updateOptions({ readOnly: isReadOnly || isPreviewing() });
+  updateModeIndicator();
+  updateDiffControls();
+  updateSmartEditing();
+  updateDataTools();
+  updateDetails();
+  renderTabBar();
+  layoutEditor();
+}
+
+/**
+ * Makes the previewed version the live one.
+ */
+async function restoreVersion(): Promise<void> {
+  endPreviewTabs(true);
+  previewLive = null;
+  liveViewState = null;
+  setReadOnly(false);
+  await saveVersion();
+  showToast('Version restored');
+}
+
+/**
+ * Turns a received snippet into a new editable one that remembers its parent.
+ */
+async function forkSnippet(): Promise<void> {
+  forkParent = window.location.hash.slice(1);
+  libraryEntryId = null;
+  if (snippetMeta.createdAt) snippetMeta.createdAt = Date.now();
+  resetTimeline(forkParent);
+  setReadOnly(false);
+  editor.focus();
+  await saveVersion();
+  showToast('Forked - edits now go to a new snippet');
+}
+
+/**
+ * Swaps in another snippet to edit, with its own library entry and history.
+ */
+async function replaceSnippet(data: SnippetData): Promise<void> {
+  if (diffEditor) await toggleDiffMode();
+  libraryEntryId = null;
+  forkParent = null;
+  resetTimeline(null);
+  lastOutput = null;
+  closeConsole();
+  loadSnippet(data);
+  setReadOnly(false);
+  editor.focus();
+}
+
+/**
+ * Starts an empty snippet. The one that was open stays in the library.
+ */
+async function newSnippet(): Promise<void> {
+  if (isPreviewing() || embedSettings) return;
+  if (isCollaborating()) {
+    showToast('End the live session first');
+    return;
+  }
+
+  await replaceSnippet({ code: '' });
+  passphrase = null;
+  updateEncryptToggle();
+  history.replaceState(null, '', window.location.pathname + window.location.search);
+  updateUrlStatus({ length: window.location.href.length, isWarning: false, isError: false });
+}
+
+/**
+ * Opens dropped, pasted or shared files as a new editable snippet, one tab
+ * per file, titled with the title shared along with them, if any. The
+ * snippet that was open stays in the library.
+ */
+async function importFiles(files: SnippetFile[], title?: string): Promise<void> {
+  if (isPreviewing()) {
+    showToast('Go back to the latest version first');
+    return;
+  }
+  if (isCollaborating()) {
+    showToast('End the live session first');
+    return;
+  }
+
+  // Files without a known extension (and shared text) get detected instead
+  for (const file of files) {
+    if (!file.lang) file.lang = confidentLanguage(await detectLanguageFromContent(file.code, true)) ?? undefined;
+  }
+
+  const [first, ...rest] = files;
+  const data: SnippetData = { code: first.code, lang: first.lang, langLocked: first.langLocked };
+  if (first.name) data.name = first.name;
+  if (rest.length > 0) data.files = rest;
+  if (title) data.title = title;
+
+  await replaceSnippet(data);
+  await saveVersion();
+  showToast(files.length === 1 ? `Opened ${first.name || 'shared text'}` : `Opened ${files.length} files`);
+}
+
+/**
+ * Starts or joins a live session, or ends the running one.
+ */
+async function toggleCollaboration(): Promise<void> {
+  if (isCollaborating()) {
+    endCollabSession();
+    return;
+  }
+  if (isPreviewing()) {
+    showToast('Go back to the latest version first');
+    return;
+  }
+  await askCollaboration(connectCollaboration);
+}
+
+/**
+ * Connects to the other browser, then shares the open files (host) or
+ * replaces them with the shared ones (guest).
+ */
+async function connectCollaboration(choice: CollabChoice, signaling: Signaling, abort: AbortSignal): Promise<void> {
+  const peer = await connectPeer(choice.role, signaling, choice.iceServers, abort);
+
+  // The session binds to one editor; the diff editor would replace it
+  if (diffEditor) await toggleDiffMode();
+  toggleTimeline(false);
+
+  await startCollabSession(peer, {
+    role: choice.role,
+    editor,
+    files: choice.role === 'host' ? snippetFiles(tabsToSnippet()) : undefined,
+    userName: choice.name,
+    openFiles: async (files) => {
+      if (choice.role === 'guest') {
+        const [first, ...rest] = files;
+        await replaceSnippet({
+          code: first?.code ?? '',
+          lang: first?.lang,
+          langLocked: true,
+          name: first?.name || undefined,
+          files: rest.length > 0 ? rest : undefined,
+        });
+        passphrase = null; // The host's passphrase stays with the host
+        updateEncryptToggle();
+      }
+      setReadOnly(false);
+      return tabModels();
+    },
+    onLanguage: (model) => {
+      if (model !== editor.getModel()) return;
+      activeTab().langLocked = true;
+      currentLanguage = model.getLanguageId();
+      updateLanguageIndicator();
+    },
+    onPeer: (name) => showToast(name ? `${name} joined the session` : 'The other person left'),
+    onEnd: finishCollaboration,
+  });
+  updateCollabToggle();
+  showToast(choice.role === 'host' ? 'Live session started' : 'Joined the live session');
+}
+
+/**
+ * Writes the session's final state to the URL and saves it as a version.
+ */
+async function finishCollaboration(): Promise<void> {
+  updateCollabToggle();
+  updateDiffControls();
+  renderTabBar();
+
+  const snippet = currentSnippet();
+  const status = passphrase ? await updateUrlHashEncrypted(snippet, passphrase) : updateUrlHash(snippet);
+  showUrlWarning(status);
+  if (!status.isError) {
+    const hash = window.location.hash.slice(1);
+    recordSnapshot(hash);
+    saveToLibrary(snippet, hash).catch(() => { });
+  }
+  showToast('Live session ended - the link has the final version');
+}
+
+/**
+ * Syncs the live session button with the session state.
+ */
+function updateCollabToggle(): void {
+  const toggle = document.getElementById('collab-toggle');
+  if (!toggle) return;
+  toggle.textContent = isCollaborating() ? '✕ End session' : '👥 Live';
+  toggle.classList.toggle('active', isCollaborating());
+  toggle.title = isCollaborating() ? 'Stop editing together; the link gets the final version'
+    : 'Edit together with someone else, browser to browser';
+}
+
+/**
+ * Registers snippt actions and change handling on a freshly created editor.
+ */
+function setupEditor(): void {
+  attachKeybindings(editor);
+
+  // Handle content changes
+  editor.onDidChangeModelContent(() => {
+    handleCodeChange();
+  });
+}
+
+/**
+ * Editor options, with the embed overrides applied in embed mode.
+ */
+function editorOptions(): monaco.editor.IStandaloneEditorConstructionOptions {
+  return embedSettings ? embedEditorOptions(EDITOR_OPTIONS, embedSettings) : EDITOR_OPTIONS;
+}
+
+/**
+ * Creates the single-file editor.
+ */
+function mountEditor(container: HTMLElement, model: monaco.editor.ITextModel): void {
+  editor = monaco.editor.create(container, { ...editorOptions(), ...smartEditingOptions(), model, readOnly: isReadOnly });
+  setupEditor();
+}
+
+/**
+ * Creates the diff editor. Both sides follow the read-only state.
+ */
+function mountDiffEditor(
+  container: HTMLElement,
+  original: monaco.editor.ITextModel,
+  modified: monaco.editor.ITextModel
+): void {
+  diffEditor = monaco.editor.createDiffEditor(container, {
+    ...editorOptions(),
+    ...smartEditingOptions(),
+    readOnly: isReadOnly,
+    originalEditable: !isReadOnly,
+    renderSideBySide: diffSideBySide,
+  });
+  diffEditor.setModel({ original, modified });
+  diffEditor.getOriginalEditor().onDidChangeModelContent(() => handleCodeChange());
+
+  editor = diffEditor.getModifiedEditor();
+  setupEditor();
+}
+
+/**
+ * Reads the saved "Smart editing" choice (off unless turned on).
+ */
+function readSmartEditing(): boolean {
+  try {
+    return localStorage.getItem(SMART_EDITING_KEY) === '1';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Editor options for the language services: on only when opted in and editing.
+ */
+function smartEditingOptions(): monaco.editor.IEditorOptions {
+  const enabled = smartEditing && !isReadOnly && !isPreviewing() && !embedSettings;
+  return {
+    hover: { enabled },
+    folding: enabled,
+    renderValidationDecorations: enabled ? 'editable' : isDataLanguage(currentLanguage) ? 'on' : 'off',
+  };
+}
+
+/**
+ * Applies the language service options and syncs the toggle.
+ */
+function updateSmartEditing(): void {
+  (diffEditor ?? editor)?.updateOptions(smartEditingOptions());
+
+  const toggle = document.getElementById('services-toggle');
+  if (toggle) {
+    toggle.hidden = isReadOnly || isPreviewing() || !!embedSettings;
+    toggle.classList.toggle('active', smartEditing);
+  }
+}
+
+/**
+ * Turns hover, folding and diagnostics on or off, and remembers the choice.
+ */
+function toggleSmartEditing(): void {
+  smartEditing = !smartEditing;
+  try {
+    if (smartEditing) localStorage.setItem(SMART_EDITING_KEY, '1');
+    else localStorage.removeItem(SMART_EDITING_KEY);
+  } catch {
+    // Storage unavailable (private mode) - the choice lasts for this page only
+  }
+  updateSmartEditing();
+}
+
+/**
+ * Re-layouts whichever editor is mounted.
+ */
+function layoutEditor(): void {
+  (diffEditor ?? editor).layout();
+}
+
+/**
+ * Switches between the single editor and diff mode. Entering diff mode
+ * starts with the current code on both sides.
+ */
+async function toggleDiffMode(): Promise<void> {
+  const container = document.getElementById('editor-container');
+  const model = editor.getModel();
+  if (!container || !model) return;
+
+  if (diffEditor) {
+    diffEditor.dispose();
+    originalModel?.dispose();
+    diffEditor = null;
+    originalModel = null;
+    mountEditor(container, model);
+  } else {
+    toggleTimeline(false);
+    originalModel = monaco.editor.createModel(model.getValue(), model.getLanguageId());
+    editor.dispose();
+    mountDiffEditor(container, originalModel, model);
+  }
+
+  renderTabBar();
+  updateDiffControls();
+  updateDataTools();
+  updatePreview();
+  layoutEditor();
+  editor.focus();
+  await saveToUrl();
+}
+
+/**
+ * Switches the diff editor between side-by-side and inline views.
+ */
+function toggleDiffView(): void {
+  diffSideBySide = !diffSideBySide;
+  diffEditor?.updateOptions({ renderSideBySide: diffSideBySide });
+  updateDiffControls();
+}
+
+/**
+ * Syncs the diff buttons with the current mode. Diff mode is for single-file snippets.
+ */
+function updateDiffControls(): void {
+  const diffToggle = document.getElementById('diff-toggle');
+  const viewToggle = document.getElementById('diff-view-toggle');
+
+  if (diffToggle) {
+    diffToggle.hidden = isReadOnly || isPreviewing() || isCollaborating() || (!diffEditor && tabModels().length > 1);
+    diffToggle.textContent = diffEditor ? '✕ Exit diff' : '± Diff';
+    diffToggle.classList.toggle('active', !!diffEditor);
+  }
+  const timelineToggle = document.getElementById('timeline-toggle');
+  if (timelineToggle) timelineToggle.hidden = !!diffEditor || isCollaborating();
+
+  if (viewToggle) {
+    viewToggle.hidden = !diffEditor;
+    viewToggle.textContent = diffSideBySide ? '☰ Inline' : '◫ Side by side';
+  }
+}
+
 /**
  * Initialize the application.
  */
@@ -373,85 +1508,209 @@ async function init(): Promise<void> {
     return;
   }
 
-  // Read initial data from URL
-  const urlData: SnippetData | null = readUrlHash();
-  const initialCode = urlData?.code || '';
-  isReadOnly = !!urlData?.code;
-  currentLanguage = urlData?.lang || (initialCode ? await detectLanguageFromContent(initialCode) : 'plaintext');
+  // Embeds are read-only views that never write to the URL or the library
+  embedSettings = readEmbedSettings();
+  if (embedSettings) enterEmbedLayout();
 
-  // Create Monaco editor with minimal features
-  editor = monaco.editor.create(container, {
-    value: initialCode,
-    language: currentLanguage,
-    theme: 'vscode-dark-plus',
-    readOnly: isReadOnly,
+  // Opening a saved snippet continues its library entry
+  const initialHash = window.location.hash.slice(1);
+  if (initialHash && !embedSettings) {
+    const entry = await findEntryByHash(initialHash).catch(() => undefined);
+    libraryEntryId = entry?.id ?? null;
+    forkParent = entry?.parent ?? null;
+  }
 
-    // Minimal features (no IntelliSense)
-    minimap: { enabled: false },
-    scrollBeyondLastLine: false,
-    fontSize: 14,
-    fontFamily: '"Fira Code", "JetBrains Mono", "Cascadia Code", monospace',
-    fontLigatures: true,
-    lineNumbers: 'on',
-    renderLineHighlight: 'line',
-
-    // Basic write assist
-    autoClosingBrackets: 'always',
-    autoClosingQuotes: 'always',
-    autoIndent: 'full',
-    formatOnPaste: false,
-    formatOnType: false,
-
-    // Disable complex features
-    quickSuggestions: false,
-    suggestOnTriggerCharacters: false,
-    acceptSuggestionOnEnter: 'off',
-    parameterHints: { enabled: false },
-    hover: { enabled: false },
-    codeLens: false,
-    folding: false,
-    links: false,
-    contextmenu: false,
-
-    // Accessibility
-    accessibilitySupport: 'off',
-
-    // Padding
-    padding: { top: 16, bottom: 16 },
-
-    // Scrollbar styling
-    scrollbar: {
-      verticalScrollbarSize: 8,
-      horizontalScrollbarSize: 8,
+  // Read initial data from URL (encrypted links need their passphrase first)
+  const urlData: SnippetData | null = urlHashIsEncrypted() ? await unlockUrlHash() : readUrlHash();
+  const files = snippetFiles(urlData);
+  const initialCode = files[0].code;
+  isReadOnly = !!embedSettings || files.some(file => file.code);
+  preserveExactly = !!urlData?.preserve;
+  minifyJson = !!urlData?.minifyJson;
+  if (urlData) snippetMeta = metaOf(urlData);
+  linkTheme = isThemeId(urlData?.theme) ? urlData.theme : null;
+  applyTheme(resolveTheme());
+  onSystemThemeChange(() => applyTheme(resolveTheme()));
+  currentLanguage = files[0].lang ||
+    (initialCode && confidentLanguage(await detectLanguageFromContent(initialCode, true))) ||
+    'plaintext';
+  files[0].lang = currentLanguage;
+
+  // One model per file; the tab bar swaps them into the editor
+  const firstTab = initTabs(files, {
+    isEditable: () => !isReadOnly && !diffEditor && !isPreviewing() && !isCollaborating(),
+    languageForName,
+    onSwitch: (tab) => {
+      editor.setModel(tab.model);
+      currentLanguage = tab.model.getLanguageId();
+      languageCandidates = []; // They were for the previous file
+      updateLanguageIndicator();
     },
+    onChange: saveToUrl,
   });
 
-  // Handle content changes
-  editor.onDidChangeModelContent(() => {
-    handleCodeChange();
-  });
+  // snippt commands, for the palette, the context menu and the keyboard
+  initKeybindings([
+    { id: 'snippt.copy-link', label: 'Copy Share Link', keys: `${COMMAND_KEYS}+C`, menu: true, run: copyShareLink },
+    { id: 'snippt.copy-selection-link', label: 'Copy Link to Selection', keys: `${COMMAND_KEYS}+L`, menu: true, run: copyLinkToSelection },
+    { id: 'snippt.copy-markdown', label: 'Copy as Markdown Code Fence', keys: `${COMMAND_KEYS}+M`, menu: true, run: copyAsMarkdown },
+    { id: 'snippt.download', label: 'Download as File', keys: `${COMMAND_KEYS}+S`, menu: true, run: downloadActiveFile },
+    { id: 'snippt.toggle-read-only', label: 'Toggle Read-Only', keys: `${COMMAND_KEYS}+E`, run: toggleReadOnly },
+    { id: 'snippt.pick-language', label: 'Change Language', keys: `${COMMAND_KEYS}+K`, run: focusLanguageSelector },
+    { id: 'snippt.new', label: 'New Snippet', keys: `${COMMAND_KEYS}+N`, run: newSnippet },
+    { id: 'snippt.run', label: 'Run Snippet', keys: 'Ctrl+Enter', languages: RUNNABLE_LANGUAGES, run: runActiveFile },
+    { id: 'snippt.collaborate', label: 'Start or End Live Session', run: toggleCollaboration },
+    { id: 'snippt.clear-highlights', label: 'Clear Highlighted Lines', run: clearHighlights },
+    { id: 'snippt.keyboard-shortcuts', label: 'Keyboard Shortcuts', run: showShortcutsDialog },
+  ]);
+
+  // Diff links hold an original text for the (single) file
+  if (urlData?.original !== undefined && files.length === 1) {
+    originalModel = monaco.editor.createModel(urlData.original, currentLanguage);
+    mountDiffEditor(container, originalModel, firstTab.model);
+  } else {
+    mountEditor(container, firstTab.model);
+  }
+
+  // Markdown opens rendered for readers
+  initMarkdownPreview({
+    canRun: (lang) => RUNNABLE_LANGUAGES.includes(lang),
+    onRun: runCode,
+    onResize: layoutEditor,
+  }, isReadOnly ? 'preview' : 'code');
+
+  // Point at the lines the sender highlighted
+  if (urlData?.ranges?.length) {
+    setHighlights(tabModels(), urlData.ranges);
+    revealRange(urlData.ranges[0]);
+  }
+
+  // Embeds grow with their content instead of filling the window
+  if (embedSettings) fitToContent(editor, container, layoutEditor);
 
   // Handle resize
-  window.addEventListener('resize', () => {
-    editor.layout();
-  });
+  window.addEventListener('resize', layoutEditor);
 
   // Set up double-tap handling
   container.addEventListener('touchend', handleTap);
   container.addEventListener('click', handleTap);
 
+  // Toggling exact mode re-encodes immediately (even in read-only mode)
+  document.querySelector('#preserve-toggle input')?.addEventListener('change', (event) => {
+    preserveExactly = (event.target as HTMLInputElement).checked;
+    updatePreserveToggle();
+    saveToUrl();
+  });
+
+  document.querySelector('#minify-toggle input')?.addEventListener('change', (event) => {
+    minifyJson = (event.target as HTMLInputElement).checked;
+    updateMinifyToggle();
+    saveToUrl();
+  });
+
+  document.getElementById('format-button')?.addEventListener('click', formatActiveFile);
+  document.getElementById('convert-selector')?.addEventListener('change', (event) => {
+    const target = (event.target as HTMLSelectElement).value;
+    if (target) convertActiveFile(target);
+  });
+
+  document.getElementById('mode-indicator')?.addEventListener('click', toggleReadOnly);
+  document.getElementById('url-status')?.addEventListener('click', copyShareLink);
+  document.getElementById('commands-button')?.addEventListener('click', openCommandPalette);
+  document.getElementById('encrypt-toggle')?.addEventListener('click', toggleEncryption);
+  document.getElementById('selection-link')?.addEventListener('click', copyLinkToSelection);
+  document.getElementById('diff-toggle')?.addEventListener('click', toggleDiffMode);
+  document.getElementById('diff-view-toggle')?.addEventListener('click', toggleDiffView);
+  document.getElementById('services-toggle')?.addEventListener('click', toggleSmartEditing);
+  document.getElementById('library-toggle')?.addEventListener('click', () => toggleLibraryPanel());
+  document.getElementById('details-toggle')?.addEventListener('click', () => toggleDetailsForm());
+
+  document.getElementById('timeline-toggle')?.addEventListener('click', () => {
+    toggleTimeline();
+    layoutEditor();
+  });
+  document.getElementById('fork-button')?.addEventListener('click', forkSnippet);
+  document.getElementById('export-button')?.addEventListener('click', exportSnippet);
+  document.getElementById('collab-toggle')?.addEventListener('click', toggleCollaboration);
+  document.getElementById('run-button')?.addEventListener('click', runActiveFile);
+
+  initConsolePanel({
+    onShareChange: (share) => {
+      shareOutput = share;
+      saveToUrl();
+    },
+    onResize: layoutEditor,
+  });
+
+  // Links can carry the sender's last run output
+  if (urlData?.output) {
+    lastOutput = urlData.output;
+    shareOutput = true;
+    setConsoleShared(true);
+    showConsole(urlData.output, 'From the link');
+  }
+  document.getElementById('language-lock')?.addEventListener('click', () => {
+    if (activeTab().langLocked) unlockLanguage();
+    else pickLanguage(currentLanguage);
+  });
+
+  const themeSelector = document.getElementById('theme-selector') as HTMLSelectElement | null;
+  themeSelector?.addEventListener('change', () => pickTheme(themeSelector.value));
+  document.querySelector('#theme-suggest input')?.addEventListener('change', (event) => {
+    toggleThemeSuggestion((event.target as HTMLInputElement).checked);
+  });
+
+  initTimeline({
+    onPreview: previewVersion,
+    onRestore: restoreVersion,
+    notify: showToast,
+  });
+  // The opened version joins the timeline once it is changed
+  resetTimeline(forkParent, urlData ? window.location.hash.slice(1) : null);
+
+  initDetailsPanel({
+    onChange: changeDetails,
+    onResize: layoutEditor,
+  });
+
+  // Soft expiry: the sender said the snippet may be outdated after this
+  if (urlData?.expiresAt && urlData.expiresAt < Date.now() && !embedSettings) {
+    showExpiryBanner(urlData.expiresAt);
+  }
+
+  // Files dropped or pasted onto the editor open as a new snippet
+  initFileImport(container, {
+    isEnabled: () => !embedSettings,
+    languageForName,
+    onImport: importFiles,
+    notify: showToast,
+  });
+
+  initLibraryPanel({
+    currentId: () => libraryEntryId,
+    onOpen: openLibraryEntry,
+    onDelete: (entry) => {
+      if (entry.id === libraryEntryId) libraryEntryId = null;
+    },
+    notify: showToast,
+  });
+
   // Update UI
   updateModeIndicator();
   updateLanguageIndicator();
-
-  // Update URL status indicator on initial load
-  if (initialCode) {
-    const urlStatus = updateUrlHash(initialCode, currentLanguage);
-    showUrlWarning(urlStatus);
-  } else {
-    // Initialize status for empty editor
-    updateUrlStatus({ length: window.location.href.length, isWarning: false, isError: false });
-  }
+  updatePreserveToggle();
+  updateEncryptToggle();
+  updateDiffControls();
+  updateSmartEditing();
+  updateDetails();
+  updateThemeControls();
+
+  // An opened link goes into the library as it is; the URL stays untouched and
+  // the timeline only grows with the first real change
+  showUrlWarning(urlStatus(window.location.href));
+  if (urlData) saveToLibrary(currentSnippet(), initialHash).catch(() => { });
+  // A damaged link opens an empty editor; say why rather than look like a blank link
+  if (initialHash && !urlData && !urlHashIsEncrypted()) showLinkError();
 
   // Hide loading screen
   const loadingScreen = document.getElementById('loading-screen');
@@ -461,9 +1720,19 @@ async function init(): Promise<void> {
   }
 
   // Focus editor if in edit mode
-  if (!isReadOnly) {
+  if (!isReadOnly && !embedSettings) {
     editor.focus();
   }
+
+  // Offline support; embeds pick up new versions silently once all tabs close
+  registerServiceWorker(embedSettings ? () => { } : showUpdatePrompt);
+
+  // Content shared from another app through the share target (see sw.js)
+  if (new URLSearchParams(window.location.search).has('share')) {
+    history.replaceState(null, '', `${window.location.pathname}${window.location.hash}`);
+    const shared = await takeShared();
+    if (shared.files.length > 0) await importFiles(shared.files, shared.title);
+  }
 }
 
 // Start the app
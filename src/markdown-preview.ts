@@ -0,0 +1,144 @@
+import * as monaco from 'monaco-editor';
+import { resolveLanguage } from './language-heuristics';
+import { renderMarkdown } from './markdown';
+import { renderCsvTable } from './structured-data';
+
+/**
+ * Rendered view of Markdown snippets, beside or instead of the editor.
+ * The HTML is sanitized (see markdown.ts), so nothing in a snippet runs on
+ * its own; code fences are colored by Monaco with the active theme, and
+ * runnable ones get a button that goes through the sandboxed runner.
+ * CSV snippets use the same pane to show their rows as a table.
+ */
+export type PreviewMode = 'code' | 'split' | 'preview';
+
+export interface MarkdownPreviewOptions {
+  /** Whether a code fence in this language can be run */
+  canRun: (lang: string) => boolean;
+  /** Runs a code fence */
+  onRun: (code: string, lang: string) => void;
+  /** Called after the editor is resized, shown or hidden */
+  onResize: () => void;
+}
+
+// Delay before re-rendering after an edit
+const RENDER_DELAY = 300;
+
+const NEXT_MODE: Record<PreviewMode, PreviewMode> = { code: 'split', split: 'preview', preview: 'code' };
+const MODE_LABELS: Record<PreviewMode, string> = { code: '📖 Preview', split: '◫ Split', preview: '✎ Source' };
+
+let options: MarkdownPreviewOptions;
+let mode: PreviewMode = 'code';
+let source: monaco.editor.ITextModel | null = null;
+let sourceLanguage = '';
+let contentListener: monaco.IDisposable | null = null;
+let renderTimer: ReturnType<typeof setTimeout> | undefined;
+
+/**
+ * Wires up the toggle button. `initialMode` applies to Markdown snippets.
+ */
+export function initMarkdownPreview(previewOptions: MarkdownPreviewOptions, initialMode: PreviewMode): void {
+  options = previewOptions;
+  mode = initialMode;
+  document.getElementById('preview-toggle')?.addEventListener('click', () => setPreviewMode(NEXT_MODE[mode]));
+}
+
+/**
+ * Current layout; 'code' when no preview is showing.
+ */
+export function previewMode(): PreviewMode {
+  return source ? mode : 'code';
+}
+
+/**
+ * Switches between source only, side by side, and preview only.
+ */
+export function setPreviewMode(next: PreviewMode): void {
+  mode = next;
+  applyLayout();
+}
+
+/**
+ * Follows a Markdown or CSV model, or hides the preview for anything else (null).
+ */
+export function setPreviewSource(model: monaco.editor.ITextModel | null): void {
+  const language = model?.getLanguageId() ?? '';
+  if (model === source && language === sourceLanguage) return;
+
+  sourceLanguage = language;
+  // The same model can switch between Markdown and CSV
+  if (model !== source) {
+    contentListener?.dispose();
+    source = model;
+    contentListener = model?.onDidChangeContent(() => {
+      clearTimeout(renderTimer);
+      renderTimer = setTimeout(renderPreview, RENDER_DELAY);
+    }) ?? null;
+  }
+  applyLayout();
+}
+
+/**
+ * Shows or hides the preview and the editor for the current mode.
+ */
+function applyLayout(): void {
+  const preview = document.getElementById('markdown-preview');
+  const container = document.getElementById('editor-container');
+  const toggle = document.getElementById('preview-toggle');
+  if (!preview || !container) return;
+
+  const current = previewMode();
+  preview.hidden = current === 'code';
+  container.hidden = current === 'preview';
+  preview.parentElement?.classList.toggle('split', current === 'split');
+
+  if (toggle) {
+    toggle.hidden = !source;
+    toggle.textContent = MODE_LABELS[mode];
+    const rendered = source?.getLanguageId() === 'csv' ? 'table' : 'rendered Markdown';
+    toggle.title = mode === 'code' ? `Show the ${rendered}` : mode === 'split' ? `Show only the ${rendered}` : 'Show only the source';
+  }
+
+  if (current !== 'code') renderPreview();
+  options.onResize();
+}
+
+/**
+ * Renders the source into the preview pane.
+ */
+function renderPreview(): void {
+  const preview = document.getElementById('markdown-preview');
+  if (!preview || !source || preview.hidden) return;
+
+  if (source.getLanguageId() === 'csv') {
+    preview.replaceChildren(renderCsvTable(source.getValue()));
+    return;
+  }
+
+  preview.innerHTML = renderMarkdown(source.getValue());
+  preview.querySelectorAll<HTMLElement>('pre > code').forEach(decorateFence);
+}
+
+/**
+ * Colors a code fence and, for runnable languages, adds a Run button.
+ */
+function decorateFence(code: HTMLElement): void {
+  const name = Array.from(code.classList).find(cls => cls.startsWith('language-'))?.slice('language-'.length);
+  const lang = name ? resolveLanguage(name) : null;
+  if (!lang) return;
+
+  const text = code.textContent || '';
+  monaco.editor.colorize(text, lang, {}).then(html => {
+    code.innerHTML = html;
+  });
+
+  if (options.canRun(lang)) {
+    const run = document.createElement('button');
+    run.type = 'button';
+    run.className = 'fence-run';
+    run.textContent = '▶ Run';
+    run.title = 'Run in a sandbox';
+    run.addEventListener('click', () => options.onRun(text, lang));
+    code.parentElement?.appendChild(run);
+  }
+}
@@ -0,0 +1,18 @@
+import DOMPurify from 'dompurify';
+import { marked } from 'marked';
+
+// Links in rendered Markdown open outside the app, which holds unsaved state in its URL
+DOMPurify.addHook('afterSanitizeAttributes', (node) => {
+  if (node.tagName === 'A') {
+    node.setAttribute('target', '_blank');
+    node.setAttribute('rel', 'noopener noreferrer');
+  }
+});
+
+/**
+ * Renders Markdown (GitHub flavoured) to sanitized HTML.
+ * Snippets come from whoever sent the link, so raw HTML in them is never trusted.
+ */
+export function renderMarkdown(text: string): string {
+  return DOMPurify.sanitize(marked.parse(text, { async: false, gfm: true }));
+}
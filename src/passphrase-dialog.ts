@@ -0,0 +1,93 @@
+export interface PassphraseDialogOptions {
+  title: string;
+  message: string;
+  confirmLabel: string;
+  cancelLabel?: string;
+  /** Ask for the passphrase twice (when setting a new one) */
+  repeat?: boolean;
+  /** Checks the passphrase before the dialog closes; returns an error message or null */
+  validate?: (passphrase: string) => Promise<string | null>;
+}
+
+/**
+ * Shows a modal passphrase prompt.
+ * Resolves with the passphrase, or null if the user cancels.
+ */
+export function askPassphrase(options: PassphraseDialogOptions): Promise<string | null> {
+  return new Promise(resolve => {
+    const overlay = document.createElement('div');
+    overlay.className = 'dialog-overlay';
+
+    const form = document.createElement('form');
+    form.className = 'dialog';
+    form.innerHTML = `
+      <h2 class="dialog-title"></h2>
+      <p class="dialog-message"></p>
+      <input class="dialog-input" type="password" autocomplete="off" placeholder="Passphrase" required />
+      <input class="dialog-input dialog-repeat" type="password" autocomplete="off" placeholder="Repeat passphrase" />
+      <p class="dialog-error" hidden></p>
+      <div class="dialog-actions">
+        <button type="button" class="dialog-button dialog-cancel"></button>
+        <button type="submit" class="dialog-button primary"></button>
+      </div>
+    `;
+
+    form.querySelector('.dialog-title')!.textContent = options.title;
+    form.querySelector('.dialog-message')!.textContent = options.message;
+
+    const [input, repeatInput] = form.querySelectorAll<HTMLInputElement>('.dialog-input');
+    const error = form.querySelector('.dialog-error') as HTMLElement;
+    const cancel = form.querySelector('.dialog-cancel') as HTMLButtonElement;
+    const submit = form.querySelector('button[type="submit"]') as HTMLButtonElement;
+
+    submit.textContent = options.confirmLabel;
+    cancel.textContent = options.cancelLabel || 'Cancel';
+    repeatInput.hidden = !options.repeat;
+    repeatInput.required = !!options.repeat;
+
+    const showError = (message: string) => {
+      error.textContent = message;
+      error.hidden = false;
+      input.select();
+    };
+
+    const close = (result: string | null) => {
+      overlay.remove();
+      resolve(result);
+    };
+
+    form.addEventListener('submit', async (event) => {
+      event.preventDefault();
+      const passphrase = input.value;
+
+      if (options.repeat && passphrase !== repeatInput.value) {
+        showError('Passphrases do not match.');
+        return;
+      }
+
+      if (options.validate) {
+        submit.disabled = true;
+        submit.textContent = 'Checking...';
+        const message = await options.validate(passphrase);
+        submit.disabled = false;
+        submit.textContent = options.confirmLabel;
+
+        if (message) {
+          showError(message);
+          return;
+        }
+      }
+
+      close(passphrase);
+    });
+
+    cancel.addEventListener('click', () => close(null));
+    form.addEventListener('keydown', (event) => {
+      if (event.key === 'Escape') close(null);
+    });
+
+    overlay.appendChild(form);
+    document.body.appendChild(overlay);
+    input.focus();
+  });
+}
@@ -0,0 +1,362 @@
+import { strToU8, strFromU8 } from 'fflate';
+import { applyDelta, createDelta } from './delta';
+import { readVarint, writeVarint } from './varint';
+
+export interface SnippetFile {
+    name: string;
+    code: string;
+    lang?: string;
+    /** `lang` was picked by hand; auto-detection leaves it alone */
+    langLocked?: boolean;
+}
+
+/**
+ * A highlighted line range, optionally narrowed to columns (1-based, inclusive lines).
+ */
+export interface SnippetRange {
+    /** Index of the file in tab order (0 = first file) */
+    file: number;
+    startLine: number;
+    endLine: number;
+    /** Set for column selections; whole lines otherwise */
+    startColumn?: number;
+    endColumn?: number;
+}
+
+/**
+ * One line of captured console output from running a snippet.
+ */
+export interface SnippetOutputLine {
+    level: OutputLevel;
+    text: string;
+}
+
+export type OutputLevel = 'log' | 'info' | 'warn' | 'error';
+
+// Wire codes of output levels (index = code)
+const OUTPUT_LEVELS: OutputLevel[] = ['log', 'info', 'warn', 'error'];
+
+/**
+ * A snippet. Multi-file snippets keep their first file in `code`/`lang`/`name`
+ * and the rest in `files`, so decoders that predate files still show the first one.
+ */
+export interface SnippetData {
+    code: string;
+    lang?: string;
+    /** `lang` was picked by hand; auto-detection leaves it alone */
+    langLocked?: boolean;
+    /** File name of `code` in multi-file snippets */
+    name?: string;
+    /** Files after the first, in tab order */
+    files?: SnippetFile[];
+    /** Skip `normalizeCode` so the code round-trips byte-for-byte */
+    preserve?: boolean;
+    /** Lines the sender wants to point at */
+    ranges?: SnippetRange[];
+    /** Diff snippets: the "before" text, with `code` as the "after" text */
+    original?: string;
+    /** Theme the sender suggests; the recipient's own choice wins */
+    theme?: string;
+    /** Output of the sender's last run, shown without running anything */
+    output?: SnippetOutputLine[];
+    /** Short title, shown above the code and in the browser tab */
+    title?: string;
+    /** What the snippet is about, in Markdown */
+    description?: string;
+    /** Author name, as typed by the sender */
+    author?: string;
+    /** When the snippet was first given details (ms since epoch, kept to the minute) */
+    createdAt?: number;
+    /** Soft expiry: past this (ms since epoch) readers are told it may be outdated */
+    expiresAt?: number;
+    /** JSON files travel without whitespace and are re-indented on open */
+    minifyJson?: boolean;
+    /** Indent `minifyJson` files get back (two spaces if unset); picked by the encoder */
+    jsonIndent?: string;
+}
+
+/**
+ * The descriptive fields of a snippet, edited together in the details panel.
+ */
+export type SnippetMeta = Pick<SnippetData, 'title' | 'description' | 'author' | 'createdAt' | 'expiresAt'>;
+
+/**
+ * Field tags of the structured payload.
+ * Each field is written as: tag byte, varint length, bytes.
+ * Unknown tags are skipped on read so newer links degrade gracefully.
+ */
+const FIELD_CODE = 1;
+const FIELD_LANG = 2;
+const FIELD_PRESERVE = 3;   // Empty - presence means true
+const FIELD_NAME = 4;
+const FIELD_FILE = 5;       // Repeated; nested payload of NAME, LANG, LANG_LOCKED, CODE
+const FIELD_RANGES = 6;     // Varints per range: file, start line, line count - 1, start column (0 = whole lines), [end column]
+const FIELD_ORIGINAL = 7;   // Delta against CODE (see delta.ts), so older decoders still show the "after" text
+const FIELD_THEME = 8;
+const FIELD_LANG_LOCKED = 9; // Empty - presence means true
+const FIELD_OUTPUT = 10;    // Per line: varint level, varint length, UTF-8 text
+const FIELD_TITLE = 11;
+const FIELD_DESCRIPTION = 12;
+const FIELD_AUTHOR = 13;
+const FIELD_CREATED = 14;   // Varint minutes since the Unix epoch
+const FIELD_EXPIRES = 15;   // Varint minutes since the Unix epoch
+const FIELD_MINIFY_JSON = 16; // Indent to restore; empty means two spaces
+
+// Timestamps are stored to the minute
+const MINUTE = 60_000;
+
+/**
+ * Appends a tagged field to the output
+ */
+function writeField(out: number[], tag: number, value: Uint8Array): void {
+    out.push(tag);
+    writeVarint(out, value.length);
+    for (let i = 0; i < value.length; i++) {
+        out.push(value[i]);
+    }
+}
+
+/**
+ * Splits a payload into its tagged fields.
+ * Throws on truncated input.
+ */
+function readFields(bytes: Uint8Array): Map<number, Uint8Array[]> {
+    const fields = new Map<number, Uint8Array[]>();
+    let pos = 0;
+
+    while (pos < bytes.length) {
+        const tag = bytes[pos++];
+
+        let length: number;
+        [length, pos] = readVarint(bytes, pos);
+
+        if (pos + length > bytes.length) throw new Error('Truncated payload');
+        const values = fields.get(tag) || [];
+        values.push(bytes.subarray(pos, pos + length));
+        fields.set(tag, values);
+        pos += length;
+    }
+
+    return fields;
+}
+
+/**
+ * Encodes a timestamp field value
+ */
+function timestampBytes(time: number): Uint8Array {
+    const out: number[] = [];
+    writeVarint(out, Math.floor(time / MINUTE));
+    return new Uint8Array(out);
+}
+
+/**
+ * Serializes snippet data into the structured payload format
+ */
+export function serializePayload(data: SnippetData): Uint8Array {
+    const out: number[] = [];
+    if (data.lang) writeField(out, FIELD_LANG, strToU8(data.lang));
+    if (data.langLocked) writeField(out, FIELD_LANG_LOCKED, new Uint8Array(0));
+    if (data.name) writeField(out, FIELD_NAME, strToU8(data.name));
+    if (data.preserve) writeField(out, FIELD_PRESERVE, new Uint8Array(0));
+    if (data.minifyJson) writeField(out, FIELD_MINIFY_JSON, strToU8(data.jsonIndent ?? ''));
+    if (data.theme) writeField(out, FIELD_THEME, strToU8(data.theme));
+    if (data.title) writeField(out, FIELD_TITLE, strToU8(data.title));
+    if (data.description) writeField(out, FIELD_DESCRIPTION, strToU8(data.description));
+    if (data.author) writeField(out, FIELD_AUTHOR, strToU8(data.author));
+    if (data.createdAt) writeField(out, FIELD_CREATED, timestampBytes(data.createdAt));
+    if (data.expiresAt) writeField(out, FIELD_EXPIRES, timestampBytes(data.expiresAt));
+    writeField(out, FIELD_CODE, strToU8(data.code));
+
+    for (const file of data.files || []) {
+        const nested: number[] = [];
+        writeField(nested, FIELD_NAME, strToU8(file.name));
+        if (file.lang) writeField(nested, FIELD_LANG, strToU8(file.lang));
+        if (file.langLocked) writeField(nested, FIELD_LANG_LOCKED, new Uint8Array(0));
+        writeField(nested, FIELD_CODE, strToU8(file.code));
+        writeField(out, FIELD_FILE, new Uint8Array(nested));
+    }
+
+    if (data.original !== undefined) {
+        writeField(out, FIELD_ORIGINAL, createDelta(data.code, data.original));
+    }
+
+    if (data.output?.length) {
+        const output: number[] = [];
+        for (const line of data.output) {
+            const text = strToU8(line.text);
+            writeVarint(output, Math.max(OUTPUT_LEVELS.indexOf(line.level), 0));
+            writeVarint(output, text.length);
+            for (let i = 0; i < text.length; i++) output.push(text[i]);
+        }
+        writeField(out, FIELD_OUTPUT, new Uint8Array(output));
+    }
+
+    if (data.ranges?.length) {
+        const ranges: number[] = [];
+        for (const range of data.ranges.map(orderedRange)) {
+            writeVarint(ranges, range.file);
+            writeVarint(ranges, range.startLine);
+            writeVarint(ranges, range.endLine - range.startLine);
+            writeVarint(ranges, range.startColumn || 0);
+            if (range.startColumn) writeVarint(ranges, range.endColumn || range.startColumn);
+        }
+        writeField(out, FIELD_RANGES, new Uint8Array(ranges));
+    }
+
+    return new Uint8Array(out);
+}
+
+/**
+ * A range running top-down; a selection made bottom-up has its ends swapped.
+ */
+function orderedRange(range: SnippetRange): SnippetRange {
+    const reversed = range.endLine < range.startLine ||
+        (range.endLine === range.startLine && !!range.startColumn && !!range.endColumn && range.endColumn < range.startColumn);
+    if (!reversed) return range;
+    const ordered: SnippetRange = { file: range.file, startLine: range.endLine, endLine: range.startLine };
+    if (range.startColumn) {
+        ordered.startColumn = range.endColumn || range.startColumn;
+        ordered.endColumn = range.startColumn;
+    }
+    return ordered;
+}
+
+/**
+ * Parses the ranges field written by `serializePayload`
+ */
+function parseRanges(bytes: Uint8Array): SnippetRange[] {
+    const ranges: SnippetRange[] = [];
+    let pos = 0;
+    const next = () => {
+        let value: number;
+        [value, pos] = readVarint(bytes, pos);
+        return value;
+    };
+
+    while (pos < bytes.length) {
+        const file = next();
+        const startLine = next();
+        const range: SnippetRange = { file, startLine, endLine: startLine + next() };
+        const startColumn = next();
+        if (startColumn) {
+            range.startColumn = startColumn;
+            range.endColumn = next();
+        }
+        ranges.push(range);
+    }
+
+    return ranges;
+}
+
+/**
+ * Parses the output field written by `serializePayload`
+ */
+function parseOutput(bytes: Uint8Array): SnippetOutputLine[] {
+    const lines: SnippetOutputLine[] = [];
+    let pos = 0;
+
+    while (pos < bytes.length) {
+        let level: number;
+        let length: number;
+        [level, pos] = readVarint(bytes, pos);
+        [length, pos] = readVarint(bytes, pos);
+        if (pos + length > bytes.length) throw new Error('Truncated output');
+
+        lines.push({ level: OUTPUT_LEVELS[level] || 'log', text: strFromU8(bytes.subarray(pos, pos + length)) });
+        pos += length;
+    }
+
+    return lines;
+}
+
+/**
+ * Parses the structured payload format back into snippet data
+ */
+export function parsePayload(bytes: Uint8Array): SnippetData {
+    const fields = readFields(bytes);
+    const text = (tag: number) => {
+        const value = fields.get(tag)?.[0];
+        return value && strFromU8(value);
+    };
+
+    const code = text(FIELD_CODE);
+    if (code === undefined) throw new Error('Payload has no code');
+
+    const data: SnippetData = { code };
+    const lang = text(FIELD_LANG);
+    const name = text(FIELD_NAME);
+    if (lang) data.lang = lang;
+    if (name) data.name = name;
+    if (fields.has(FIELD_LANG_LOCKED)) data.langLocked = true;
+    if (fields.has(FIELD_PRESERVE)) data.preserve = true;
+    if (fields.has(FIELD_MINIFY_JSON)) {
+        data.minifyJson = true;
+        const indent = text(FIELD_MINIFY_JSON);
+        if (indent) data.jsonIndent = indent;
+    }
+    const theme = text(FIELD_THEME);
+    if (theme) data.theme = theme;
+    const title = text(FIELD_TITLE);
+    const description = text(FIELD_DESCRIPTION);
+    const author = text(FIELD_AUTHOR);
+    if (title) data.title = title;
+    if (description) data.description = description;
+    if (author) data.author = author;
+    const timestamp = (tag: number) => {
+        const value = fields.get(tag)?.[0];
+        return value && readVarint(value, 0)[0] * MINUTE;
+    };
+    const createdAt = timestamp(FIELD_CREATED);
+    const expiresAt = timestamp(FIELD_EXPIRES);
+    if (createdAt) data.createdAt = createdAt;
+    if (expiresAt) data.expiresAt = expiresAt;
+
+    const files = fields.get(FIELD_FILE);
+    if (files) {
+        data.files = files.map(bytes => {
+            const file = parsePayload(bytes);
+            const result: SnippetFile = { name: file.name || '', code: file.code, lang: file.lang };
+            if (file.langLocked) result.langLocked = true;
+            return result;
+        });
+    }
+
+    const ranges = fields.get(FIELD_RANGES)?.[0];
+    if (ranges) data.ranges = parseRanges(ranges);
+
+    const output = fields.get(FIELD_OUTPUT)?.[0];
+    if (output) data.output = parseOutput(output);
+
+    const original = fields.get(FIELD_ORIGINAL)?.[0];
+    if (original) data.original = applyDelta(code, original);
+
+    return data;
+}
+
+/**
+ * Applies a transform to the code of every file in a snippet
+ */
+export function mapCode(data: SnippetData, transform: (code: string) => string): SnippetData {
+    const result: SnippetData = { ...data, code: transform(data.code) };
+    if (data.original !== undefined) result.original = transform(data.original);
+    if (data.files) {
+        result.files = data.files.map(file => ({ ...file, code: transform(file.code) }));
+    }
+    return result;
+}
+
+/**
+ * Applies a transform to the code of the JSON files in a snippet only
+ */
+export function mapJsonCode(data: SnippetData, transform: (code: string) => string): SnippetData {
+    const isJson = (lang?: string) => lang === 'json';
+    const result: SnippetData = { ...data };
+    if (isJson(data.lang)) {
+        result.code = transform(data.code);
+        if (data.original !== undefined) result.original = transform(data.original);
+    }
+    if (data.files) {
+        result.files = data.files.map(file => (isJson(file.lang) ? { ...file, code: transform(file.code) } : file));
+    }
+    return result;
+}
@@ -0,0 +1,162 @@
+import type { OutputLevel, SnippetOutputLine } from './compression';
+
+/**
+ * Runs JavaScript/TypeScript snippets away from the app.
+ *
+ * The code runs in a Web Worker started inside a sandboxed iframe (scripts
+ * only, no same-origin). The opaque origin keeps it away from the app's
+ * storage - including the snippet library - and the worker keeps an endless
+ * loop from freezing the page: removing the iframe ends it.
+ */
+export interface RunResult {
+  output: SnippetOutputLine[];
+  status: 'ok' | 'error' | 'timeout';
+  /** Wall time in milliseconds */
+  duration: number;
+}
+
+export const RUN_TIMEOUT = 5000;
+// Time left for pending timers and promises after the code returns
+const SETTLE_TIME = 100;
+const MAX_LINES = 500;
+const MAX_LINE_LENGTH = 10_000;
+const LEVELS: OutputLevel[] = ['log', 'info', 'warn', 'error'];
+
+/**
+ * Worker body, as source text: patches `console`, runs the code as an async
+ * function (so top-level `await` works) and reports back via postMessage.
+ */
+const WORKER_SOURCE = `
+const format = (value) => {
+  if (typeof value === 'string') return value;
+  if (value instanceof Error) return value.stack || String(value);
+  if (typeof value === 'function') return '[Function ' + (value.name || 'anonymous') + ']';
+  try {
+    const seen = new WeakSet();
+    const json = JSON.stringify(value, (key, item) => {
+      if (typeof item === 'bigint') return item + 'n';
+      if (typeof item === 'object' && item !== null) {
+        if (seen.has(item)) return '[Circular]';
+        seen.add(item);
+      }
+      return item;
+    }, 2);
+    return json === undefined ? String(value) : json;
+  } catch {
+    return String(value);
+  }
+};
+for (const level of ['log', 'info', 'warn', 'error', 'debug']) {
+  console[level] = (...args) => postMessage({
+    type: 'line',
+    level: level === 'debug' ? 'log' : level,
+    text: args.map(format).join(' '),
+  });
+}
+self.addEventListener('unhandledrejection', (event) => {
+  postMessage({ type: 'error', text: format(event.reason) });
+});
+self.addEventListener('error', (event) => {
+  postMessage({ type: 'error', text: event.message });
+});
+self.onmessage = async (event) => {
+  try {
+    const AsyncFunction = (async () => {}).constructor;
+    await new AsyncFunction(event.data)();
+    postMessage({ type: 'done' });
+  } catch (error) {
+    postMessage({ type: 'error', text: format(error) });
+  }
+};
+`;
+
+/**
+ * Iframe page: starts the worker and relays messages between it and the app.
+ */
+const FRAME_SOURCE = `<!DOCTYPE html><script>
+const worker = new Worker(URL.createObjectURL(new Blob([${JSON.stringify(WORKER_SOURCE)}], { type: 'text/javascript' })));
+worker.onmessage = (event) => parent.postMessage(event.data, '*');
+onmessage = (event) => worker.postMessage(event.data);
+parent.postMessage({ type: 'ready' }, '*');
+</script>`;
+
+/**
+ * Turns TypeScript into plain JavaScript. The compiler is large, so it is
+ * only loaded the first time a TypeScript snippet runs.
+ */
+async function transpile(code: string): Promise<string> {
+  const { typescript } = await import('monaco-editor/esm/vs/language/typescript/lib/typescriptServices.js');
+  return typescript.transpileModule(code, {
+    compilerOptions: {
+      target: typescript.ScriptTarget.ES2022,
+      module: typescript.ModuleKind.None,
+    },
+  }).outputText;
+}
+
+/**
+ * Runs a snippet and collects its console output.
+ * Resolves once the code finishes (plus a short settle time), fails, or times out.
+ */
+export async function runSnippet(code: string, lang: string, timeout = RUN_TIMEOUT): Promise<RunResult> {
+  const output: SnippetOutputLine[] = [];
+  const push = (level: OutputLevel, text: string) => {
+    if (output.length < MAX_LINES) output.push({ level, text: text.slice(0, MAX_LINE_LENGTH) });
+  };
+
+  let source: string;
+  try {
+    source = lang === 'typescript' ? await transpile(code) : code;
+  } catch (error) {
+    push('error', `Could not compile TypeScript: ${error}`);
+    return { output, status: 'error', duration: 0 };
+  }
+
+  const frame = document.createElement('iframe');
+  frame.sandbox.add('allow-scripts');
+  frame.hidden = true;
+  frame.srcdoc = FRAME_SOURCE;
+
+  const started = performance.now();
+
+  return new Promise(resolve => {
+    let status: RunResult['status'] = 'ok';
+    let settleTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const finish = () => {
+      clearTimeout(timeoutTimer);
+      clearTimeout(settleTimer);
+      window.removeEventListener('message', onMessage);
+      frame.remove();
+      resolve({ output, status, duration: Math.round(performance.now() - started) });
+    };
+
+    const timeoutTimer = setTimeout(() => {
+      status = 'timeout';
+      push('error', `Timed out after ${timeout / 1000} s`);
+      finish();
+    }, timeout);
+
+    const onMessage = (event: MessageEvent) => {
+      // Only the runner frame, and only the messages it sends
+      if (!frame.contentWindow || event.source !== frame.contentWindow) return;
+      if (typeof event.data !== 'object' || event.data === null) return;
+      const message = event.data as { type?: unknown; level?: unknown; text?: unknown };
+
+      if (message.type === 'ready') {
+        frame.contentWindow.postMessage(source, '*');
+      } else if (message.type === 'line') {
+        push(LEVELS.includes(message.level as OutputLevel) ? message.level as OutputLevel : 'log', String(message.text));
+      } else if (message.type === 'error') {
+        status = 'error';
+        push('error', String(message.text));
+        settleTimer ??= setTimeout(finish, SETTLE_TIME);
+      } else if (message.type === 'done') {
+        settleTimer ??= setTimeout(finish, SETTLE_TIME);
+      }
+    };
+
+    window.addEventListener('message', onMessage);
+    document.body.appendChild(frame);
+  });
+}
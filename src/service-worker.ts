@@ -0,0 +1,32 @@
+/**
+ * Registers public/sw.js and offers new versions once they are fully downloaded.
+ * A waiting version only takes over when the user accepts, so the open page
+ * never mixes files from two builds.
+ */
+export function registerServiceWorker(onUpdate: (reload: () => void) => void): void {
+  if (!('serviceWorker' in navigator)) return;
+
+  let accepted = false;
+  // The new worker has taken over; load the page from its cache
+  navigator.serviceWorker.addEventListener('controllerchange', () => {
+    if (accepted) window.location.reload();
+  });
+
+  const offer = (worker: ServiceWorker) => onUpdate(() => {
+    accepted = true;
+    worker.postMessage({ type: 'skip-waiting' });
+  });
+
+  // updateViaCache: precache-manifest.js must not come from the HTTP cache
+  navigator.serviceWorker.register('./sw.js', { updateViaCache: 'none' }).then((registration) => {
+    // Without a controller this is the first install, not an update
+    if (registration.waiting && navigator.serviceWorker.controller) offer(registration.waiting);
+
+    registration.addEventListener('updatefound', () => {
+      const installing = registration.installing;
+      installing?.addEventListener('statechange', () => {
+        if (installing.state === 'installed' && navigator.serviceWorker.controller) offer(installing);
+      });
+    });
+  }).catch(() => { });
+}
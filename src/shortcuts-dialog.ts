@@ -0,0 +1,96 @@
+import { displayKeys, keysFor, keysFromEvent, setKeys, snippetActions } from './keybindings';
+
+/**
+ * Shows the snippt actions with their keys. Clicking a shortcut records the
+ * next key combination; Backspace unbinds it and Escape cancels.
+ */
+export function showShortcutsDialog(): void {
+  const overlay = document.createElement('div');
+  overlay.className = 'dialog-overlay';
+
+  const dialog = document.createElement('div');
+  dialog.className = 'dialog shortcuts-dialog';
+  dialog.tabIndex = -1;
+  dialog.innerHTML = `
+    <h2 class="dialog-title">Keyboard shortcuts</h2>
+    <p class="dialog-message">All of these are also in the command palette (F1).</p>
+    <ul class="shortcut-list"></ul>
+    <p class="dialog-message shortcut-notice" hidden></p>
+    <div class="dialog-actions">
+      <button type="button" class="dialog-button dialog-reset">Reset all</button>
+      <button type="button" class="dialog-button primary dialog-done">Done</button>
+    </div>
+  `;
+
+  const list = dialog.querySelector('.shortcut-list') as HTMLElement;
+  const notice = dialog.querySelector('.shortcut-notice') as HTMLElement;
+  let recording: HTMLButtonElement | null = null;
+
+  const buttonAt = (index: number) => list.querySelectorAll<HTMLButtonElement>('.shortcut-keys')[index];
+
+  const render = () => {
+    list.innerHTML = '';
+    snippetActions().forEach((action, index) => {
+      const item = document.createElement('li');
+      item.className = 'shortcut-item';
+
+      const label = document.createElement('span');
+      label.textContent = action.label;
+
+      const keys = document.createElement('button');
+      keys.type = 'button';
+      keys.className = 'shortcut-keys';
+      keys.textContent = keysFor(action) ? displayKeys(keysFor(action)) : '—';
+      keys.title = 'Click, then press the new keys';
+
+      keys.addEventListener('keydown', (event) => {
+        if (recording !== keys) return;
+        event.preventDefault();
+        event.stopPropagation();
+
+        if (event.key === 'Escape') {
+          render();
+          buttonAt(index).focus();
+          return;
+        }
+        const pressed = event.key === 'Backspace' ? '' : keysFromEvent(event);
+        if (pressed === null) return; // Still holding modifiers
+
+        const previous = setKeys(action, pressed);
+        notice.textContent = previous ? `Removed the shortcut from "${previous.label}"` : '';
+        notice.hidden = !previous;
+        render();
+        buttonAt(index).focus();
+      });
+      keys.addEventListener('click', () => {
+        render();
+        const current = buttonAt(index);
+        recording = current;
+        current.textContent = 'Press keys…';
+        current.classList.add('recording');
+        current.focus();
+      });
+
+      item.append(label, keys);
+      list.appendChild(item);
+    });
+    recording = null;
+  };
+
+  const close = () => overlay.remove();
+
+  dialog.querySelector('.dialog-reset')!.addEventListener('click', () => {
+    snippetActions().forEach(action => setKeys(action, null));
+    notice.hidden = true;
+    render();
+  });
+  dialog.querySelector('.dialog-done')!.addEventListener('click', close);
+  dialog.addEventListener('keydown', (event) => {
+    if (event.key === 'Escape') close();
+  });
+
+  render();
+  overlay.appendChild(dialog);
+  document.body.appendChild(overlay);
+  dialog.querySelector<HTMLButtonElement>('.dialog-done')!.focus();
+}
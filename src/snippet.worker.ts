@@ -0,0 +1,34 @@
+import { GuessLang } from '@ray-d-song/guesslang-js';
+import { encode, encodeEncrypted } from './compression';
+import type { WorkerRequest, WorkerResponse } from './worker-client';
+
+/**
+ * Off-main-thread encoding and ML language detection, so typing in big
+ * snippets does not stutter. See worker-client.ts for the calling side.
+ */
+const guessLang = new GuessLang();
+
+/**
+ * Runs one request
+ */
+async function handle(request: WorkerRequest): Promise<unknown> {
+    switch (request.type) {
+        case 'encode':
+            return request.passphrase
+                ? encodeEncrypted(request.data, request.passphrase)
+                : encode(request.data);
+        case 'detect':
+            return (await guessLang.runModel(request.code)) || [];
+    }
+}
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+    const { id } = event.data;
+    let response: WorkerResponse;
+    try {
+        response = { id, result: await handle(event.data) };
+    } catch (error) {
+        response = { id, error: String(error) };
+    }
+    self.postMessage(response);
+};
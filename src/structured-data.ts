@@ -0,0 +1,397 @@
+import * as monaco from 'monaco-editor';
+import { parse as parseToml, stringify as stringifyToml, TomlError } from 'smol-toml';
+import { parse as parseYaml, parseAllDocuments, parseDocument, stringify as stringifyYaml } from 'yaml';
+
+/**
+ * Formatting, validation and conversion for JSON, YAML, TOML and CSV
+ * snippets, all done in the page. JSON is checked by Monaco's own JSON
+ * service; the others get markers from the parsers here.
+ */
+export const DATA_LANGUAGES = ['json', 'yaml', 'toml', 'csv'];
+
+/** Languages "Convert to…" moves between */
+export const CONVERTIBLE_LANGUAGES = ['json', 'yaml', 'toml'];
+
+// Owner of the markers set here, so they don't clash with Monaco's
+const MARKER_OWNER = 'snippt-data';
+
+// Delay before re-validating after an edit
+const VALIDATE_DELAY = 300;
+
+// Rows shown in the CSV table; the rest are counted
+const MAX_TABLE_ROWS = 1000;
+
+// Delimiters a CSV file may use, most common first
+const CSV_DELIMITERS = [',', ';', '\t'];
+
+/**
+ * A parse problem at a 1-based position.
+ */
+export interface DataIssue {
+  message: string;
+  line: number;
+  column: number;
+  severity: 'error' | 'warning';
+}
+
+interface CsvRow {
+  /** 1-based line the row starts on */
+  line: number;
+  cells: string[];
+}
+
+interface CsvTable {
+  delimiter: string;
+  rows: CsvRow[];
+  /** Line of a quoted cell that never closes */
+  unclosedQuote?: number;
+}
+
+/**
+ * Whether the language is one of the structured-data formats.
+ */
+export function isDataLanguage(lang: string): boolean {
+  return DATA_LANGUAGES.includes(lang);
+}
+
+/**
+ * First line of a parser message, without the position some parsers append.
+ */
+function shortMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, '');
+}
+
+/**
+ * The delimiter used most on the first line (outside quotes), comma by default.
+ */
+function detectDelimiter(text: string): string {
+  const firstLine = text.split('\n', 1)[0].replace(/"[^"]*"/g, '');
+  const counts = CSV_DELIMITERS.map(delimiter => firstLine.split(delimiter).length - 1);
+  const best = Math.max(...counts);
+  return best > 0 ? CSV_DELIMITERS[counts.indexOf(best)] : ',';
+}
+
+/**
+ * Splits CSV text into rows (RFC 4180 quoting; quoted cells may span lines).
+ * Padding around unquoted cells and around quotes is dropped; quoted cells
+ * keep every character.
+ */
+function parseCsv(text: string): CsvTable {
+  const delimiter = detectDelimiter(text);
+  const rows: CsvRow[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+  let quoteLine = 0;
+
+  const endCell = () => {
+    cells.push(quoted ? cell : cell.trim());
+    cell = '';
+    quoted = false;
+  };
+  const endRow = () => {
+    endCell();
+    // Blank lines are not rows
+    if (cells.length > 1 || cells[0] !== '') rows.push({ line: rowLine, cells });
+    cells = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoteLine) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoteLine = 0;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"' && !quoted && cell.trim() === '') {
+      cell = '';
+      quoted = true;
+      quoteLine = line;
+    } else if (char === delimiter) {
+      endCell();
+    } else if (char === '\n') {
+      endRow();
+      rowLine = ++line;
+    } else if (char !== '\r' && !(quoted && (char === ' ' || char === '\t'))) {
+      cell += char;
+    }
+  }
+  endRow();
+
+  return { delimiter, rows, unclosedQuote: quoteLine || undefined };
+}
+
+/**
+ * Writes rows back as CSV, quoting only the cells that need it (including
+ * those with edge whitespace, which an unquoted cell would lose).
+ */
+function stringifyCsv(table: CsvTable): string {
+  const quote = (cell: string) => (cell.includes(table.delimiter) || /["\r\n]/.test(cell) || cell !== cell.trim()
+    ? `"${cell.replace(/"/g, '""')}"`
+    : cell);
+  return table.rows.map(row => row.cells.map(quote).join(table.delimiter)).join('\n');
+}
+
+/**
+ * Parses data text into a value. Throws with the parser's message.
+ */
+function parseData(text: string, lang: string): unknown {
+  switch (lang) {
+    case 'json': return JSON.parse(text);
+    case 'yaml': return parseYaml(text);
+    case 'toml': return parseToml(text);
+    default: throw new Error(`Can't read ${lang}`);
+  }
+}
+
+/**
+ * Pretty-prints YAML, TOML or CSV text (Monaco formats JSON itself).
+ * YAML keeps its comments; TOML is rewritten from the parsed value, so its
+ * comments are dropped (Format is undoable). Throws if the text doesn't parse.
+ */
+export function formatData(text: string, lang: string): string {
+  switch (lang) {
+    case 'yaml': {
+      const document = parseDocument(text);
+      if (document.errors.length > 0) throw document.errors[0];
+      return document.toString({ lineWidth: 0 });
+    }
+    case 'toml':
+      return stringifyToml(parseToml(text));
+    case 'csv': {
+      const table = parseCsv(text);
+      if (table.unclosedQuote) throw new Error('Unclosed quote');
+      return stringifyCsv(table);
+    }
+    default:
+      return text;
+  }
+}
+
+/**
+ * Rewrites JSON, YAML or TOML as another of the three.
+ * Throws if the text doesn't parse or can't be expressed in the target.
+ */
+export function convertData(text: string, from: string, to: string): string {
+  let value: unknown;
+  try {
+    value = parseData(text, from);
+  } catch (error) {
+    throw new Error(`Not valid ${from.toUpperCase()}: ${shortMessage(error)}`);
+  }
+
+  switch (to) {
+    case 'json':
+      return JSON.stringify(value, null, 2);
+    case 'yaml':
+      return stringifyYaml(value, { lineWidth: 0 });
+    case 'toml':
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new Error('TOML needs key/value pairs at the top level');
+      }
+      try {
+        return stringifyToml(value as Record<string, unknown>);
+      } catch (error) {
+        throw new Error(`Can't write TOML: ${shortMessage(error)}`);
+      }
+    default:
+      throw new Error(`Can't convert to ${to}`);
+  }
+}
+
+/**
+ * Parse problems in YAML, TOML or CSV text. JSON is left to Monaco.
+ */
+export function validateData(text: string, lang: string): DataIssue[] {
+  switch (lang) {
+    case 'yaml':
+      return parseAllDocuments(text).flatMap(document => [
+        ...document.errors.map(error => ({ error, severity: 'error' as const })),
+        ...document.warnings.map(error => ({ error, severity: 'warning' as const })),
+      ]).map(({ error, severity }) => ({
+        message: shortMessage(error),
+        line: error.linePos?.[0].line ?? 1,
+        column: error.linePos?.[0].col ?? 1,
+        severity,
+      }));
+    case 'toml':
+      try {
+        parseToml(text);
+        return [];
+      } catch (error) {
+        if (!(error instanceof TomlError)) throw error;
+        return [{ message: shortMessage(error), line: error.line, column: error.column, severity: 'error' }];
+      }
+    case 'csv': {
+      const table = parseCsv(text);
+      const width = table.rows[0]?.cells.length ?? 0;
+      const issues: DataIssue[] = table.rows
+        .filter(row => row.cells.length !== width)
+        .map(row => ({
+          message: `${row.cells.length} column${row.cells.length === 1 ? '' : 's'} where the header has ${width}`,
+          line: row.line,
+          column: 1,
+          severity: 'warning',
+        }));
+      if (table.unclosedQuote) {
+        issues.push({ message: 'Unclosed quote', line: table.unclosedQuote, column: 1, severity: 'error' });
+      }
+      return issues;
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * A CSV file as a table, first row as the header.
+ */
+export function renderCsvTable(text: string): HTMLElement {
+  const { rows } = parseCsv(text);
+  const wrapper = document.createElement('div');
+  wrapper.className = 'csv-table';
+
+  const table = document.createElement('table');
+  const addRow = (parent: HTMLElement, cells: string[], tag: 'th' | 'td') => {
+    const tr = document.createElement('tr');
+    for (const cell of cells) {
+      const td = document.createElement(tag);
+      td.textContent = cell;
+      tr.appendChild(td);
+    }
+    parent.appendChild(tr);
+  };
+
+  if (rows.length > 0) {
+    const head = document.createElement('thead');
+    addRow(head, rows[0].cells, 'th');
+    table.appendChild(head);
+
+    const body = document.createElement('tbody');
+    rows.slice(1, MAX_TABLE_ROWS + 1).forEach(row => addRow(body, row.cells, 'td'));
+    table.appendChild(body);
+  }
+  wrapper.appendChild(table);
+
+  const hidden = rows.length - 1 - MAX_TABLE_ROWS;
+  if (hidden > 0) {
+    const note = document.createElement('p');
+    note.className = 'csv-note';
+    note.textContent = `${hidden} more rows not shown`;
+    wrapper.appendChild(note);
+  }
+  return wrapper;
+}
+
+/**
+ * Sets (or clears) the parse markers of a model.
+ */
+function validateModel(model: monaco.editor.ITextModel): void {
+  if (model.isDisposed()) return;
+
+  const lang = model.getLanguageId();
+  const issues = isDataLanguage(lang) ? validateData(model.getValue(), lang) : [];
+  monaco.editor.setModelMarkers(model, MARKER_OWNER, issues.map(issue => ({
+    message: issue.message,
+    severity: issue.severity === 'error' ? monaco.MarkerSeverity.Error : monaco.MarkerSeverity.Warning,
+    startLineNumber: issue.line,
+    startColumn: issue.column,
+    endLineNumber: issue.line,
+    endColumn: model.getLineMaxColumn(Math.min(issue.line, model.getLineCount())),
+  })));
+}
+
+/**
+ * Re-validates a model shortly after each edit.
+ */
+function watchModel(model: monaco.editor.ITextModel): void {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  validateModel(model);
+  const listener = model.onDidChangeContent(() => {
+    clearTimeout(timer);
+    timer = setTimeout(() => validateModel(model), VALIDATE_DELAY);
+  });
+  model.onWillDispose(() => {
+    clearTimeout(timer);
+    listener.dispose();
+  });
+}
+
+/**
+ * Adds the TOML and CSV languages Monaco lacks, the formatters behind
+ * "Format Document", and validation of every model.
+ */
+export function registerDataLanguages(): void {
+  monaco.languages.register({ id: 'toml', extensions: ['.toml'], aliases: ['TOML'] });
+  monaco.languages.setLanguageConfiguration('toml', {
+    comments: { lineComment: '#' },
+    brackets: [['[', ']'], ['{', '}']],
+    autoClosingPairs: [
+      { open: '[', close: ']' },
+      { open: '{', close: '}' },
+      { open: '"', close: '"' },
+      { open: '\'', close: '\'' },
+    ],
+  });
+  monaco.languages.setMonarchTokensProvider('toml', {
+    tokenizer: {
+      root: [
+        [/#.*$/, 'comment'],
+        [/^\s*\[\[?[^\]]*\]\]?/, 'type'],
+        [/[A-Za-z0-9_.-]+(?=\s*=)/, 'key'],
+        [/"""/, 'string', '@multiString'],
+        [/'''/, 'string', '@multiLiteral'],
+        [/"([^"\\]|\\.)*"/, 'string'],
+        [/'[^']*'/, 'string'],
+        [/\d{4}-\d{2}-\d{2}([T ][\d:.]+)?(Z|[+-]\d{2}:\d{2})?/, 'number'],
+        [/\d{2}:\d{2}:\d{2}(\.\d+)?/, 'number'],
+        [/[+-]?(0x[\da-fA-F_]+|0o[0-7_]+|0b[01_]+|inf|nan)/, 'number'],
+        [/[+-]?\d[\d_]*(\.\d[\d_]*)?([eE][+-]?\d+)?/, 'number'],
+        [/\b(true|false)\b/, 'keyword'],
+      ],
+      multiString: [
+        [/"""/, 'string', '@pop'],
+        [/./, 'string'],
+      ],
+      multiLiteral: [
+        [/'''/, 'string', '@pop'],
+        [/./, 'string'],
+      ],
+    },
+  });
+
+  monaco.languages.register({ id: 'csv', extensions: ['.csv', '.tsv'], aliases: ['CSV'] });
+  monaco.languages.setMonarchTokensProvider('csv', {
+    tokenizer: {
+      root: [
+        [/"([^"]|"")*"/, 'string'],
+        [/[,;\t]/, 'delimiter'],
+        [/[+-]?\d+(\.\d+)?(?=[,;\t]|$)/, 'number'],
+      ],
+    },
+  });
+
+  for (const lang of ['yaml', 'toml', 'csv']) {
+    monaco.languages.registerDocumentFormattingEditProvider(lang, {
+      provideDocumentFormattingEdits: (model) => {
+        try {
+          return [{ range: model.getFullModelRange(), text: formatData(model.getValue(), lang) }];
+        } catch {
+          return []; // The markers already point at the problem
+        }
+      },
+    });
+  }
+
+  monaco.editor.getModels().forEach(watchModel);
+  monaco.editor.onDidCreateModel(watchModel);
+  monaco.editor.onDidChangeModelLanguage(({ model }) => validateModel(model));
+}
@@ -0,0 +1,292 @@
+import * as monaco from 'monaco-editor';
+import type { SnippetData, SnippetFile } from './compression';
+
+export interface Tab {
+  name: string;
+  model: monaco.editor.ITextModel;
+  /** Language was picked by hand (or by file extension); skip auto-detection */
+  langLocked: boolean;
+}
+
+export interface TabOptions {
+  /** Whether tabs can be added, renamed and deleted right now */
+  isEditable: () => boolean;
+  /** Language for a file name (from its extension), or null if unknown */
+  languageForName: (name: string) => string | null;
+  /** Called after a different tab becomes active */
+  onSwitch: (tab: Tab) => void;
+  /** Called after tabs are added, renamed or deleted */
+  onChange: () => void;
+}
+
+// Name given to a single-file snippet; not stored in the link
+const DEFAULT_NAME = 'untitled';
+
+let tabs: Tab[] = [];
+let activeIndex = 0;
+let options: TabOptions;
+// The open tabs while an earlier version is shown in their place
+let liveTabs: { tabs: Tab[]; activeIndex: number } | null = null;
+
+/**
+ * One tab (with a new model) per file.
+ */
+function createTabs(files: SnippetFile[]): Tab[] {
+  return files.map(file => ({
+    name: file.name || DEFAULT_NAME,
+    model: monaco.editor.createModel(file.code, file.lang || 'plaintext'),
+    langLocked: !!file.langLocked,
+  }));
+}
+
+/**
+ * Creates one Monaco model per file and renders the tab bar.
+ * Later calls replace the open tabs; their old models are left to the caller.
+ */
+export function initTabs(files: SnippetFile[], tabOptions: TabOptions = options): Tab {
+  options = tabOptions;
+  tabs = createTabs(files);
+  activeIndex = 0;
+  renderTabBar();
+  return tabs[0];
+}
+
+/**
+ * Shows other files (an earlier version) in models of their own, until
+ * `endPreviewTabs`. The open tabs and their models, undo history included,
+ * are set aside untouched.
+ */
+export function previewTabs(files: SnippetFile[]): Tab {
+  if (liveTabs) tabs.forEach(tab => tab.model.dispose());
+  else liveTabs = { tabs, activeIndex };
+
+  tabs = createTabs(files);
+  activeIndex = 0;
+  renderTabBar();
+  return tabs[0];
+}
+
+/**
+ * Ends a preview: brings back the tabs set aside, or with `keep` makes the
+ * previewed ones the open tabs instead. Returns the active tab, or null if
+ * nothing was previewed.
+ */
+export function endPreviewTabs(keep = false): Tab | null {
+  if (!liveTabs) return null;
+
+  const discarded = keep ? liveTabs.tabs : tabs;
+  if (!keep) {
+    tabs = liveTabs.tabs;
+    activeIndex = liveTabs.activeIndex;
+  }
+  liveTabs = null;
+  discarded.forEach(tab => tab.model.dispose());
+  renderTabBar();
+  return tabs[activeIndex];
+}
+
+/**
+ * Lists the files of a decoded snippet, first file included.
+ */
+export function snippetFiles(data: SnippetData | null): SnippetFile[] {
+  if (!data) return [{ name: DEFAULT_NAME, code: '' }];
+  const first: SnippetFile = { name: data.name || DEFAULT_NAME, code: data.code, lang: data.lang };
+  if (data.langLocked) first.langLocked = true;
+  return [first, ...(data.files || [])];
+}
+
+/**
+ * Builds snippet data from the open tabs (without `preserve`).
+ */
+export function tabsToSnippet(): SnippetData {
+  const [first, ...rest] = tabs.map(tab => {
+    const file: SnippetFile = { name: tab.name, code: tab.model.getValue(), lang: tab.model.getLanguageId() };
+    if (tab.langLocked) file.langLocked = true;
+    return file;
+  });
+
+  const data: SnippetData = { code: first.code, lang: first.lang };
+  if (first.langLocked) data.langLocked = true;
+  // A lone default-named file needs no name in the link
+  if (rest.length > 0 || first.name !== DEFAULT_NAME) data.name = first.name;
+  if (rest.length > 0) data.files = rest;
+  return data;
+}
+
+/**
+ * Models of all tabs, in tab order.
+ */
+export function tabModels(): monaco.editor.ITextModel[] {
+  return tabs.map(tab => tab.model);
+}
+
+/**
+ * Index of the active tab.
+ */
+export function activeTabIndex(): number {
+  return activeIndex;
+}
+
+/**
+ * The active tab.
+ */
+export function activeTab(): Tab {
+  return tabs[activeIndex];
+}
+
+/**
+ * Makes another tab active.
+ */
+export function switchTab(index: number): void {
+  if (index === activeIndex || !tabs[index]) return;
+  activeIndex = index;
+  renderTabBar();
+  options.onSwitch(tabs[index]);
+}
+
+/**
+ * Returns a name that no open tab uses yet.
+ */
+function uniqueName(base: string): string {
+  const taken = new Set(tabs.map(tab => tab.name));
+  if (!taken.has(base)) return base;
+
+  const dot = base.lastIndexOf('.');
+  const stem = dot > 0 ? base.slice(0, dot) : base;
+  const ext = dot > 0 ? base.slice(dot) : '';
+  let n = 2;
+  while (taken.has(`${stem}-${n}${ext}`)) n++;
+  return `${stem}-${n}${ext}`;
+}
+
+/**
+ * Adds an empty tab and switches to it.
+ */
+function addTab(): void {
+  tabs.push({ name: uniqueName(DEFAULT_NAME), model: monaco.editor.createModel('', 'plaintext'), langLocked: false });
+  switchTab(tabs.length - 1);
+  options.onChange();
+}
+
+/**
+ * Deletes a tab (never the last one).
+ */
+function removeTab(index: number): void {
+  if (tabs.length <= 1) return;
+
+  const tab = tabs[index];
+  if (tab.model.getValueLength() > 0 && !confirm(`Delete "${tab.name}"?`)) return;
+
+  tabs.splice(index, 1);
+  if (index === activeIndex) {
+    activeIndex = Math.min(index, tabs.length - 1);
+    options.onSwitch(tabs[activeIndex]);
+  } else if (index < activeIndex) {
+    activeIndex--;
+  }
+  tab.model.dispose();
+
+  renderTabBar();
+  options.onChange();
+}
+
+/**
+ * Renames a tab; a known extension also sets the tab's language.
+ */
+function renameTab(index: number, name: string): void {
+  const tab = tabs[index];
+  const trimmed = name.trim();
+  if (!trimmed || trimmed === tab.name) {
+    renderTabBar();
+    return;
+  }
+
+  tab.name = uniqueName(trimmed);
+  const lang = options.languageForName(tab.name);
+  if (lang) {
+    monaco.editor.setModelLanguage(tab.model, lang);
+    tab.langLocked = true;
+  }
+
+  renderTabBar();
+  if (index === activeIndex) options.onSwitch(tab);
+  options.onChange();
+}
+
+/**
+ * Swaps a tab label for an inline input.
+ */
+function startRename(index: number, label: HTMLElement): void {
+  const input = document.createElement('input');
+  input.className = 'tab-rename';
+  input.value = tabs[index].name;
+
+  let done = false;
+  const finish = (commit: boolean) => {
+    if (done) return;
+    done = true;
+    if (commit) renameTab(index, input.value);
+    else renderTabBar();
+  };
+
+  input.addEventListener('keydown', (event) => {
+    if (event.key === 'Enter') finish(true);
+    if (event.key === 'Escape') finish(false);
+  });
+  input.addEventListener('blur', () => finish(true));
+
+  label.replaceWith(input);
+  input.focus();
+  input.select();
+}
+
+/**
+ * Renders the tab bar. Hidden for single-file snippets in read-only mode.
+ */
+export function renderTabBar(): void {
+  const bar = document.getElementById('tab-bar');
+  if (!bar) return;
+
+  const editable = options.isEditable();
+  bar.hidden = !editable && tabs.length <= 1;
+  bar.innerHTML = '';
+
+  tabs.forEach((tab, index) => {
+    const item = document.createElement('div');
+    item.className = `tab${index === activeIndex ? ' active' : ''}`;
+    item.title = editable ? 'Double-click to rename' : tab.name;
+
+    const label = document.createElement('span');
+    label.className = 'tab-name';
+    label.textContent = tab.name;
+    item.appendChild(label);
+
+    item.addEventListener('click', () => switchTab(index));
+    if (editable) {
+      label.addEventListener('dblclick', () => startRename(index, label));
+    }
+
+    if (editable && tabs.length > 1) {
+      const close = document.createElement('button');
+      close.className = 'tab-close';
+      close.textContent = '×';
+      close.title = `Delete ${tab.name}`;
+      close.addEventListener('click', (event) => {
+        event.stopPropagation();
+        removeTab(index);
+      });
+      item.appendChild(close);
+    }
+
+    bar.appendChild(item);
+  });
+
+  if (editable) {
+    const add = document.createElement('button');
+    add.className = 'tab-add';
+    add.textContent = '+';
+    add.title = 'Add file';
+    add.addEventListener('click', addTab);
+    bar.appendChild(add);
+  }
+}
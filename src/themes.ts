@@ -0,0 +1,352 @@
+import * as monaco from 'monaco-editor';
+
+/**
+ * Editor and UI themes.
+ *
+ * Token rules are generated from a small palette of roles. Monaco matches rules
+ * by scope prefix, so `keyword` also colours `keyword.go`, `keyword.flow.sql` and
+ * so on - one rule per scope covers every bundled language. The few scopes that
+ * mean something different in one language (JSON and YAML keys) get their own rules.
+ */
+interface TokenPalette {
+  foreground: string;
+  comment: string;
+  keyword: string;
+  string: string;
+  escape: string;
+  number: string;
+  regexp: string;
+  type: string;
+  variable: string;
+  /** Built-in functions, annotations and decorators */
+  function: string;
+  constant: string;
+  operator: string;
+  tag: string;
+  attribute: string;
+  /** Object keys (JSON, YAML, INI/TOML) */
+  key: string;
+  invalid: string;
+}
+
+/** Colours of the page around the editor (the CSS variables in style.css) */
+interface UiPalette {
+  bgPrimary: string;
+  bgSecondary: string;
+  bgTertiary: string;
+  textPrimary: string;
+  textSecondary: string;
+  textMuted: string;
+  border: string;
+  accentBlue: string;
+  accentGreen: string;
+  accentPurple: string;
+}
+
+interface ThemeDefinition {
+  id: string;
+  label: string;
+  base: monaco.editor.BuiltinTheme;
+  tokens: TokenPalette;
+  ui: UiPalette;
+  /** Editor colours beyond background/foreground (selection, cursor...) */
+  colors: Record<string, string>;
+}
+
+export interface ThemeOption {
+  id: string;
+  label: string;
+}
+
+// Token scopes per palette role
+const ROLE_SCOPES: Record<Exclude<keyof TokenPalette, 'foreground'>, string[]> = {
+  comment: ['comment'],
+  keyword: ['keyword', 'metatag', 'storage'],
+  string: ['string', 'attribute.value.html'],
+  escape: ['string.escape', 'regexp.escape'],
+  number: ['number'],
+  regexp: ['regexp'],
+  type: ['type', 'class', 'namespace', 'struct', 'interface'],
+  variable: ['identifier', 'variable', 'variable.source'],
+  function: ['predefined', 'annotation', 'function', 'variable.predefined'],
+  constant: ['constant', 'global.constant', 'string.link'],
+  operator: ['operator', 'delimiter'],
+  tag: ['tag'],
+  attribute: ['attribute.name'],
+  key: ['key', 'string.key.json', 'type.yaml', 'attribute.name.ini'],
+  invalid: ['invalid', 'string.invalid'],
+};
+
+const THEMES: ThemeDefinition[] = [
+  {
+    id: 'vscode-dark-plus',
+    label: 'Dark+',
+    base: 'vs-dark',
+    tokens: {
+      foreground: 'D4D4D4', comment: '6A9955', keyword: 'C586C0', string: 'CE9178', escape: 'D7BA7D',
+      number: 'B5CEA8', regexp: 'D16969', type: '4EC9B0', variable: '9CDCFE', function: 'DCDCAA',
+      constant: '4FC1FF', operator: 'D4D4D4', tag: '569CD6', attribute: '9CDCFE', key: '9CDCFE', invalid: 'F44747',
+    },
+    ui: {
+      bgPrimary: '#1e1e1e', bgSecondary: '#252526', bgTertiary: '#333333', textPrimary: '#d4d4d4',
+      textSecondary: '#9d9d9d', textMuted: '#858585', border: '#3c3c3c',
+      accentBlue: '#569cd6', accentGreen: '#4ec9b0', accentPurple: '#c586c0',
+    },
+    colors: {
+      'editor.background': '#1E1E1E',
+      'editorLineNumber.foreground': '#858585',
+      'editorLineNumber.activeForeground': '#C6C6C6',
+      'editor.selectionBackground': '#264F78',
+      'editor.lineHighlightBackground': '#2A2D2E',
+      'editorCursor.foreground': '#AEAFAD',
+    },
+  },
+  {
+    id: 'vscode-light-plus',
+    label: 'Light+',
+    base: 'vs',
+    tokens: {
+      foreground: '000000', comment: '008000', keyword: 'AF00DB', string: 'A31515', escape: 'EE0000',
+      number: '098658', regexp: '811F3F', type: '267F99', variable: '001080', function: '795E26',
+      constant: '0070C1', operator: '000000', tag: '800000', attribute: 'E50000', key: '0451A5', invalid: 'CD3131',
+    },
+    ui: {
+      bgPrimary: '#ffffff', bgSecondary: '#f3f3f3', bgTertiary: '#e4e4e4', textPrimary: '#1f1f1f',
+      textSecondary: '#616161', textMuted: '#767676', border: '#d4d4d4',
+      accentBlue: '#005fb8', accentGreen: '#267f99', accentPurple: '#af00db',
+    },
+    colors: {
+      'editor.background': '#FFFFFF',
+      'editorLineNumber.foreground': '#237893',
+      'editorLineNumber.activeForeground': '#0B216F',
+      'editor.selectionBackground': '#ADD6FF',
+      'editor.lineHighlightBackground': '#F5F5F5',
+      'editorCursor.foreground': '#000000',
+    },
+  },
+  {
+    id: 'high-contrast-dark',
+    label: 'High Contrast',
+    base: 'hc-black',
+    tokens: {
+      foreground: 'FFFFFF', comment: '7CA668', keyword: 'C586C0', string: 'CE9178', escape: 'D7BA7D',
+      number: 'B5CEA8', regexp: 'D16969', type: '4EC9B0', variable: '9CDCFE', function: 'DCDCAA',
+      constant: '4FC1FF', operator: 'FFFFFF', tag: '569CD6', attribute: '9CDCFE', key: '9CDCFE', invalid: 'F48771',
+    },
+    ui: {
+      bgPrimary: '#000000', bgSecondary: '#000000', bgTertiary: '#1a1a1a', textPrimary: '#ffffff',
+      textSecondary: '#ffffff', textMuted: '#d0d0d0', border: '#6fc3df',
+      accentBlue: '#6fc3df', accentGreen: '#4ec9b0', accentPurple: '#f38518',
+    },
+    colors: {
+      'editor.background': '#000000',
+      'editorLineNumber.foreground': '#FFFFFF',
+      'editorLineNumber.activeForeground': '#F38518',
+    },
+  },
+  {
+    id: 'high-contrast-light',
+    label: 'High Contrast Light',
+    base: 'hc-light',
+    tokens: {
+      foreground: '292929', comment: '515151', keyword: 'B5200D', string: '0F4A85', escape: 'EE0000',
+      number: '096D48', regexp: '811F3F', type: '185E73', variable: '001080', function: '5E2CBC',
+      constant: '0F4A85', operator: '292929', tag: '0F4A85', attribute: '264F78', key: '0F4A85', invalid: 'B5200D',
+    },
+    ui: {
+      bgPrimary: '#ffffff', bgSecondary: '#ffffff', bgTertiary: '#f2f2f2', textPrimary: '#292929',
+      textSecondary: '#292929', textMuted: '#4d4d4d', border: '#0f4a85',
+      accentBlue: '#0f4a85', accentGreen: '#185e73', accentPurple: '#b5200d',
+    },
+    colors: {
+      'editor.background': '#FFFFFF',
+      'editorLineNumber.foreground': '#292929',
+      'editorLineNumber.activeForeground': '#0F4A85',
+    },
+  },
+  {
+    id: 'monokai',
+    label: 'Monokai',
+    base: 'vs-dark',
+    tokens: {
+      foreground: 'F8F8F2', comment: '88846F', keyword: 'F92672', string: 'E6DB74', escape: 'AE81FF',
+      number: 'AE81FF', regexp: 'E6DB74', type: '66D9EF', variable: 'F8F8F2', function: 'A6E22E',
+      constant: 'AE81FF', operator: 'F8F8F2', tag: 'F92672', attribute: 'A6E22E', key: '66D9EF', invalid: 'F44747',
+    },
+    ui: {
+      bgPrimary: '#272822', bgSecondary: '#1e1f1c', bgTertiary: '#3e3d32', textPrimary: '#f8f8f2',
+      textSecondary: '#c2c2bf', textMuted: '#88846f', border: '#414339',
+      accentBlue: '#66d9ef', accentGreen: '#a6e22e', accentPurple: '#ae81ff',
+    },
+    colors: {
+      'editor.background': '#272822',
+      'editorLineNumber.foreground': '#90908A',
+      'editorLineNumber.activeForeground': '#C2C2BF',
+      'editor.selectionBackground': '#49483E',
+      'editor.lineHighlightBackground': '#3E3D32',
+      'editorCursor.foreground': '#F8F8F0',
+    },
+  },
+  {
+    id: 'dracula',
+    label: 'Dracula',
+    base: 'vs-dark',
+    tokens: {
+      foreground: 'F8F8F2', comment: '6272A4', keyword: 'FF79C6', string: 'F1FA8C', escape: 'FF79C6',
+      number: 'BD93F9', regexp: 'FF5555', type: '8BE9FD', variable: 'F8F8F2', function: '50FA7B',
+      constant: 'BD93F9', operator: 'FF79C6', tag: 'FF79C6', attribute: '50FA7B', key: '8BE9FD', invalid: 'FF5555',
+    },
+    ui: {
+      bgPrimary: '#282a36', bgSecondary: '#21222c', bgTertiary: '#343746', textPrimary: '#f8f8f2',
+      textSecondary: '#bfbfbf', textMuted: '#6272a4', border: '#44475a',
+      accentBlue: '#8be9fd', accentGreen: '#50fa7b', accentPurple: '#bd93f9',
+    },
+    colors: {
+      'editor.background': '#282A36',
+      'editorLineNumber.foreground': '#6272A4',
+      'editorLineNumber.activeForeground': '#F8F8F2',
+      'editor.selectionBackground': '#44475A',
+      'editor.lineHighlightBackground': '#44475A75',
+      'editorCursor.foreground': '#F8F8F0',
+    },
+  },
+  {
+    id: 'solarized-light',
+    label: 'Solarized Light',
+    base: 'vs',
+    tokens: {
+      foreground: '657B83', comment: '93A1A1', keyword: '859900', string: '2AA198', escape: 'DC322F',
+      number: 'D33682', regexp: 'DC322F', type: 'B58900', variable: '268BD2', function: '268BD2',
+      constant: 'CB4B16', operator: '657B83', tag: '268BD2', attribute: '93A1A1', key: '268BD2', invalid: 'DC322F',
+    },
+    ui: {
+      bgPrimary: '#fdf6e3', bgSecondary: '#eee8d5', bgTertiary: '#e4ddc8', textPrimary: '#586e75',
+      textSecondary: '#657b83', textMuted: '#93a1a1', border: '#d3cbb7',
+      accentBlue: '#268bd2', accentGreen: '#2aa198', accentPurple: '#6c71c4',
+    },
+    colors: {
+      'editor.background': '#FDF6E3',
+      'editorLineNumber.foreground': '#93A1A1',
+      'editorLineNumber.activeForeground': '#567983',
+      'editor.selectionBackground': '#EEE8D5',
+      'editor.lineHighlightBackground': '#EEE8D5',
+      'editorCursor.foreground': '#657B83',
+    },
+  },
+];
+
+const DEFAULT_DARK = 'vscode-dark-plus';
+const DEFAULT_LIGHT = 'vscode-light-plus';
+const DEFAULT_CONTRAST_DARK = 'high-contrast-dark';
+const DEFAULT_CONTRAST_LIGHT = 'high-contrast-light';
+
+// localStorage key for the user's explicit choice; absent means "follow the system"
+const STORAGE_KEY = 'snippt-theme';
+
+/**
+ * Builds Monaco token rules from a palette.
+ */
+function tokenRules(palette: TokenPalette): monaco.editor.ITokenThemeRule[] {
+  const rules: monaco.editor.ITokenThemeRule[] = [{ token: '', foreground: palette.foreground }];
+  for (const [role, scopes] of Object.entries(ROLE_SCOPES)) {
+    const foreground = palette[role as keyof TokenPalette];
+    rules.push(...scopes.map(token => ({ token, foreground })));
+  }
+  rules.push(
+    { token: 'comment.doc', foreground: palette.comment, fontStyle: 'italic' },
+    { token: 'emphasis', fontStyle: 'italic' },
+    { token: 'strong', fontStyle: 'bold' },
+  );
+  return rules;
+}
+
+/**
+ * Registers every theme with Monaco. Call once before creating editors.
+ */
+export function defineThemes(): void {
+  for (const theme of THEMES) {
+    monaco.editor.defineTheme(theme.id, {
+      base: theme.base,
+      inherit: true,
+      rules: tokenRules(theme.tokens),
+      colors: { 'editor.foreground': `#${theme.tokens.foreground}`, ...theme.colors },
+    });
+  }
+}
+
+/**
+ * Themes for pickers, in display order.
+ */
+export function themeOptions(): ThemeOption[] {
+  return THEMES.map(({ id, label }) => ({ id, label }));
+}
+
+/**
+ * Whether a theme id exists (ids arrive from links and storage).
+ */
+export function isThemeId(id: string | null | undefined): id is string {
+  return !!id && THEMES.some(theme => theme.id === id);
+}
+
+/**
+ * Theme matching the system colour scheme and contrast preference.
+ */
+export function systemTheme(): string {
+  const light = window.matchMedia('(prefers-color-scheme: light)').matches;
+  const contrast = window.matchMedia('(prefers-contrast: more)').matches;
+  if (contrast) return light ? DEFAULT_CONTRAST_LIGHT : DEFAULT_CONTRAST_DARK;
+  return light ? DEFAULT_LIGHT : DEFAULT_DARK;
+}
+
+/**
+ * Calls back when the system theme changes.
+ */
+export function onSystemThemeChange(callback: () => void): void {
+  window.matchMedia('(prefers-color-scheme: light)').addEventListener('change', callback);
+  window.matchMedia('(prefers-contrast: more)').addEventListener('change', callback);
+}
+
+/**
+ * The theme the user picked, or null to follow the system.
+ */
+export function savedTheme(): string | null {
+  try {
+    const id = localStorage.getItem(STORAGE_KEY);
+    return isThemeId(id) ? id : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Stores the user's pick (null goes back to following the system).
+ */
+export function saveTheme(id: string | null): void {
+  try {
+    if (id) localStorage.setItem(STORAGE_KEY, id);
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Storage unavailable (private mode) - the choice lasts for this page only
+  }
+}
+
+/**
+ * Switches Monaco and the page chrome to a theme.
+ */
+export function applyTheme(id: string): void {
+  const theme = THEMES.find(item => item.id === id) || THEMES[0];
+  monaco.editor.setTheme(theme.id);
+
+  const style = document.documentElement.style;
+  style.setProperty('--bg-primary', theme.ui.bgPrimary);
+  style.setProperty('--bg-secondary', theme.ui.bgSecondary);
+  style.setProperty('--bg-tertiary', theme.ui.bgTertiary);
+  style.setProperty('--text-primary', theme.ui.textPrimary);
+  style.setProperty('--text-secondary', theme.ui.textSecondary);
+  style.setProperty('--text-muted', theme.ui.textMuted);
+  style.setProperty('--border-color', theme.ui.border);
+  style.setProperty('--accent-blue', theme.ui.accentBlue);
+  style.setProperty('--accent-green', theme.ui.accentGreen);
+  style.setProperty('--accent-purple', theme.ui.accentPurple);
+  document.documentElement.style.colorScheme = theme.base === 'vs' || theme.base === 'hc-light' ? 'light' : 'dark';
+}
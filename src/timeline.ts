@@ -0,0 +1,171 @@
+export interface Snapshot {
+  /** Encoded snippet, without the leading `#` */
+  hash: string;
+  time: number;
+}
+
+export interface TimelineOptions {
+  /** Shows a snapshot read-only; null returns to the live editor */
+  onPreview: (snapshot: Snapshot | null) => void;
+  /** Makes the previewed snapshot the live version */
+  onRestore: (snapshot: Snapshot) => void;
+  /** Shows a short status message */
+  notify: (message: string) => void;
+}
+
+// Older snapshots are dropped beyond this
+const MAX_SNAPSHOTS = 100;
+
+let snapshots: Snapshot[] = [];
+let previewIndex: number | null = null;
+let parentHash: string | null = null;
+// The version the page opened with; joins the timeline once there is another
+let baseSnapshot: Snapshot | null = null;
+let options: TimelineOptions;
+
+/**
+ * Wires up the timeline bar controls.
+ */
+export function initTimeline(timelineOptions: TimelineOptions): void {
+  options = timelineOptions;
+
+  const range = document.getElementById('timeline-range') as HTMLInputElement | null;
+  range?.addEventListener('input', () => previewAt(Number(range.value)));
+
+  document.getElementById('timeline-latest')?.addEventListener('click', () => previewAt(snapshots.length - 1));
+  document.getElementById('timeline-restore')?.addEventListener('click', restorePreview);
+  document.getElementById('timeline-copy')?.addEventListener('click', copySnapshotLink);
+}
+
+/**
+ * Adds a version to the timeline. Ignored while previewing.
+ */
+export function recordSnapshot(hash: string): void {
+  if (previewIndex !== null || snapshots[snapshots.length - 1]?.hash === hash) return;
+  if (baseSnapshot?.hash === hash) return;
+  if (baseSnapshot) snapshots.push(baseSnapshot);
+  baseSnapshot = null;
+
+  snapshots.push({ hash, time: Date.now() });
+  if (snapshots.length > MAX_SNAPSHOTS) snapshots.shift();
+  renderTimeline();
+}
+
+/**
+ * Starts a fresh timeline (after a fork), remembering where it came from.
+ * `base` is the version as opened; it is only recorded once a change follows,
+ * so opening a link without editing it adds nothing.
+ */
+export function resetTimeline(parent: string | null, base: string | null = null): void {
+  snapshots = [];
+  previewIndex = null;
+  parentHash = parent;
+  baseSnapshot = base ? { hash: base, time: Date.now() } : null;
+  renderTimeline();
+}
+
+/**
+ * Whether an earlier version is being previewed.
+ */
+export function isPreviewing(): boolean {
+  return previewIndex !== null;
+}
+
+/**
+ * Whether the timeline bar is showing.
+ */
+export function isTimelineOpen(): boolean {
+  return !document.getElementById('timeline-bar')?.hidden;
+}
+
+/**
+ * Opens or closes the timeline bar (flips it when `open` is omitted).
+ * Closing it returns to the live version.
+ */
+export function toggleTimeline(open = !isTimelineOpen()): void {
+  const bar = document.getElementById('timeline-bar');
+  if (!bar) return;
+
+  if (!open && previewIndex !== null) previewAt(snapshots.length - 1);
+  bar.hidden = !open;
+  document.getElementById('timeline-toggle')?.classList.toggle('active', open);
+  renderTimeline();
+}
+
+/**
+ * Link that opens a snapshot.
+ */
+function snapshotUrl(hash: string): string {
+  return `${window.location.origin}${window.location.pathname}#${hash}`;
+}
+
+/**
+ * Previews the snapshot at an index; the last one is the live version.
+ */
+function previewAt(index: number): void {
+  const next = index >= snapshots.length - 1 ? null : index;
+  if (next === previewIndex) return;
+
+  previewIndex = next;
+  renderTimeline();
+  options.onPreview(next === null ? null : snapshots[next]);
+}
+
+/**
+ * Restores the previewed snapshot as the live version.
+ */
+function restorePreview(): void {
+  if (previewIndex === null) return;
+
+  const snapshot = snapshots[previewIndex];
+  previewIndex = null;
+  renderTimeline();
+  options.onRestore(snapshot);
+}
+
+/**
+ * Copies a link to the selected version.
+ */
+async function copySnapshotLink(): Promise<void> {
+  const snapshot = snapshots[previewIndex ?? snapshots.length - 1];
+  if (!snapshot) return;
+
+  try {
+    await navigator.clipboard.writeText(snapshotUrl(snapshot.hash));
+    options.notify('Version link copied');
+  } catch {
+    options.notify('Could not copy the link');
+  }
+}
+
+/**
+ * Syncs the scrubber, label and buttons with the timeline state.
+ */
+function renderTimeline(): void {
+  const range = document.getElementById('timeline-range') as HTMLInputElement | null;
+  const label = document.getElementById('timeline-label');
+  const restore = document.getElementById('timeline-restore') as HTMLButtonElement | null;
+  const latest = document.getElementById('timeline-latest') as HTMLButtonElement | null;
+  const copy = document.getElementById('timeline-copy') as HTMLButtonElement | null;
+  const parent = document.getElementById('timeline-parent') as HTMLAnchorElement | null;
+
+  const index = previewIndex ?? snapshots.length - 1;
+
+  if (range) {
+    range.max = String(Math.max(snapshots.length - 1, 0));
+    range.value = String(Math.max(index, 0));
+    range.disabled = snapshots.length < 2;
+  }
+  if (label) {
+    label.textContent = snapshots.length === 0
+      ? 'No versions yet'
+      : `Version ${index + 1} of ${snapshots.length} • ${new Date(snapshots[index].time).toLocaleTimeString()}`;
+  }
+  if (restore) restore.disabled = previewIndex === null;
+  if (latest) latest.disabled = previewIndex === null;
+  if (copy) copy.disabled = snapshots.length === 0;
+  if (parent) {
+    parent.hidden = !parentHash;
+    if (parentHash) parent.href = snapshotUrl(parentHash);
+  }
+}
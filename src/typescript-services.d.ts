@@ -0,0 +1,14 @@
+/**
+ * The TypeScript compiler that ships inside monaco-editor (untyped there).
+ * Only the part the snippet runner uses is declared.
+ */
+declare module 'monaco-editor/esm/vs/language/typescript/lib/typescriptServices.js' {
+  export const typescript: {
+    ScriptTarget: { ES2022: number };
+    ModuleKind: { None: number };
+    transpileModule(
+      input: string,
+      options: { compilerOptions: { target: number; module: number } }
+    ): { outputText: string };
+  };
+}
@@ -0,0 +1,60 @@
+import { decode, decodeEncrypted, encode, encodeEncrypted, isEncrypted, urlStatus } from './compression';
+import type { SnippetData, UrlStatus } from './compression';
+
+/**
+ * Browser side of the codec: reads and writes snippets in the page's URL hash.
+ * compression.ts itself stays free of `window`, so it also runs in Node (see cli/).
+ */
+
+/**
+ * Writes an already encoded hash to the URL.
+ * Returns status about URL length.
+ */
+export function setUrlHash(encoded: string): UrlStatus {
+    const status = urlStatus(`${window.location.origin}${window.location.pathname}#${encoded}`);
+
+    // Only update URL if not exceeding error limit
+    if (!status.isError) {
+        history.replaceState(null, '', `#${encoded}`);
+    }
+
+    return status;
+}
+
+/**
+ * Updates the URL hash with the encoded snippet data.
+ * Returns status about URL length.
+ */
+export function updateUrlHash(data: SnippetData): UrlStatus {
+    return setUrlHash(encode(data));
+}
+
+/**
+ * Updates the URL hash with the snippet data encrypted under a passphrase.
+ */
+export async function updateUrlHashEncrypted(data: SnippetData, passphrase: string): Promise<UrlStatus> {
+    return setUrlHash(await encodeEncrypted(data, passphrase));
+}
+
+/**
+ * Reads the snippet data from the current URL hash.
+ */
+export function readUrlHash(): SnippetData | null {
+    const hash = window.location.hash.slice(1); // Remove leading #
+    return decode(hash);
+}
+
+/**
+ * Returns true if the current URL hash needs a passphrase.
+ */
+export function urlHashIsEncrypted(): boolean {
+    return isEncrypted(window.location.hash.slice(1));
+}
+
+/**
+ * Decrypts the snippet data in the current URL hash.
+ * Throws `PassphraseError` on a wrong passphrase.
+ */
+export function readEncryptedUrlHash(passphrase: string): Promise<SnippetData | null> {
+    return decodeEncrypted(window.location.hash.slice(1), passphrase);
+}
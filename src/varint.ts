@@ -0,0 +1,27 @@
+/**
+ * Appends an unsigned LEB128 varint to the output
+ */
+export function writeVarint(out: number[], value: number): void {
+    while (value > 0x7f) {
+        out.push((value & 0x7f) | 0x80);
+        value >>>= 7;
+    }
+    out.push(value);
+}
+
+/**
+ * Reads an unsigned LEB128 varint at `pos`; returns the value and the next position.
+ * Throws on truncated input.
+ */
+export function readVarint(bytes: Uint8Array, pos: number): [number, number] {
+    let value = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+        if (pos >= bytes.length) throw new Error('Truncated varint');
+        byte = bytes[pos++];
+        value |= (byte & 0x7f) << shift;
+        shift += 7;
+    } while (byte & 0x80);
+    return [value, pos];
+}
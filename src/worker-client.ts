@@ -0,0 +1,110 @@
+import { encode, encodeEncrypted } from './compression';
+import type { SnippetData } from './compression';
+import SnippetWorker from './snippet.worker?worker';
+
+/**
+ * Calls into snippet.worker.ts. If the worker cannot start (or dies), the
+ * same work runs on the main thread instead, so saving never breaks.
+ */
+type RequestBody =
+  | { type: 'encode'; data: SnippetData; passphrase: string | null }
+  | { type: 'detect'; code: string };
+
+export type WorkerRequest = RequestBody & { id: number };
+
+export interface WorkerResponse {
+  id: number;
+  result?: unknown;
+  error?: string;
+}
+
+/** A raw model guess (VS Code language id) */
+export interface ModelGuess {
+  languageId: string;
+  confidence: number;
+}
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextId = 0;
+const pending = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }>();
+
+/**
+ * Starts the worker on first use. Returns null once it has failed.
+ */
+function getWorker(): Worker | null {
+  if (worker || workerFailed) return worker;
+
+  try {
+    worker = new SnippetWorker();
+  } catch {
+    workerFailed = true;
+    return null;
+  }
+
+  worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+    const call = pending.get(event.data.id);
+    if (!call) return;
+    pending.delete(event.data.id);
+    if (event.data.error !== undefined) call.reject(new Error(event.data.error));
+    else call.resolve(event.data.result);
+  };
+  worker.onerror = () => {
+    // A crashed worker fails every call in flight; later calls run inline
+    workerFailed = true;
+    worker?.terminate();
+    worker = null;
+    for (const call of pending.values()) call.reject(new Error('Worker failed'));
+    pending.clear();
+  };
+
+  return worker;
+}
+
+/**
+ * Sends a request to the worker and waits for its result.
+ */
+function call<T>(request: RequestBody): Promise<T> {
+  const target = getWorker();
+  if (!target) return Promise.reject(new Error('Worker unavailable'));
+
+  const id = nextId++;
+  return new Promise<T>((resolve, reject) => {
+    pending.set(id, { resolve: resolve as (value: unknown) => void, reject });
+    target.postMessage({ ...request, id });
+  });
+}
+
+/**
+ * Encodes a snippet (encrypted when a passphrase is given) off the main thread.
+ */
+export async function encodeSnippet(data: SnippetData, passphrase: string | null): Promise<string> {
+  if (!workerFailed) {
+    try {
+      return await call<string>({ type: 'encode', data, passphrase });
+    } catch {
+      // Fall through to the main thread
+    }
+  }
+  return passphrase ? encodeEncrypted(data, passphrase) : encode(data);
+}
+
+let inlineGuessLang: Promise<{ runModel(code: string): Promise<ModelGuess[]> }> | null = null;
+
+/**
+ * Asks the ML model for the language of some code, best guess first.
+ * Rejects if the model cannot load (e.g. offline before it was cached).
+ */
+export async function guessLanguages(code: string): Promise<ModelGuess[]> {
+  if (!workerFailed) {
+    try {
+      return await call<ModelGuess[]>({ type: 'detect', code });
+    } catch (error) {
+      // Only a dead worker falls back; a model error would fail inline too
+      if (!workerFailed) throw error;
+    }
+  }
+
+  inlineGuessLang ??= import('@ray-d-song/guesslang-js').then(({ GuessLang }) => new GuessLang());
+  return (await (await inlineGuessLang).runModel(code)) || [];
+}
@@ -1,4 +1,56 @@
+import { createHash } from 'node:crypto';
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
 import { defineConfig } from 'vite';
+import type { Plugin } from 'vite';
+
+// Written next to sw.js, which loads it with importScripts
+const PRECACHE_MANIFEST = 'precache-manifest.js';
+
+/**
+ * Lists every file of the build (plus the public folder) for the service
+ * worker to precache, with a version that changes whenever any of them does.
+ */
+function precacheManifest(): Plugin {
+    let publicDir = '';
+
+    return {
+        name: 'snippt-precache-manifest',
+        apply: 'build',
+        // After the HTML plugin, so index.html is part of the bundle
+        enforce: 'post',
+        configResolved(config) {
+            publicDir = config.publicDir;
+        },
+        generateBundle(_options, bundle) {
+            const hash = createHash('sha256');
+            const files: string[] = [];
+
+            for (const fileName of Object.keys(bundle).sort()) {
+                const output = bundle[fileName];
+                hash.update(fileName);
+                hash.update(output.type === 'chunk' ? output.code : output.source);
+                // The page is cached as the scope URL itself
+                if (fileName !== 'index.html' && !fileName.endsWith('.map')) files.push(fileName);
+            }
+
+            // sw.js updates on its own, as the browser compares it byte by byte
+            for (const fileName of readdirSync(publicDir).sort()) {
+                if (fileName === 'sw.js') continue;
+                hash.update(fileName);
+                hash.update(readFileSync(join(publicDir, fileName)));
+                files.push(fileName);
+            }
+
+            const manifest = { version: hash.digest('hex').slice(0, 12), files };
+            this.emitFile({
+                type: 'asset',
+                fileName: PRECACHE_MANIFEST,
+                source: `self.PRECACHE = ${JSON.stringify(manifest, null, 2)};\n`,
+            });
+        },
+    };
+}
 
 export default defineConfig({
     // For GitHub Pages - use repo name as base path
@@ -6,6 +58,11 @@ export default defineConfig({
     build: {
         target: 'esnext',
     },
+    plugins: [precacheManifest()],
+    // Monaco's language workers and the snippet worker are ES modules
+    worker: {
+        format: 'es',
+    },
     optimizeDeps: {
         include: ['monaco-editor'],
     },